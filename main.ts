@@ -1,58 +1,19 @@
 #!/usr/bin/env -S deno run --allow-net --allow-read --allow-write --allow-run --allow-env --allow-sys
 
+import {type ArgumentValue, Command, EnumType, ValidationError} from "@cliffy/command";
 import {Confirm, Input, Secret} from "@cliffy/prompt";
 import {keypress} from "@cliffy/keypress";
-import ora from "ora";
 import * as colors from "@std/fmt/colors";
-import {ensureDir, exists} from "@std/fs";
-import {join} from "@std/path";
-
-
-// Configuration interface
-interface Config {
-  organization: string;
-  token: string;
-  emails: string[];
-}
-
-// Function to get config file path for an organization
-function getConfigFilePath(organization: string): string {
-  return join(Deno.cwd(), `${organization}.config.json`);
-}
-
-// Function to read configuration from file
-async function readConfig(organization?: string): Promise<Config | null> {
-  try {
-    // If organization is provided, read organization-specific config
-    if (organization) {
-      const orgConfigFile = getConfigFilePath(organization);
-      if (await exists(orgConfigFile)) {
-        const content = await Deno.readTextFile(orgConfigFile);
-        return JSON.parse(content) as Config;
-      }
-    } else {
-      // For backward compatibility, try to read from the default config file
-      const defaultConfigFile = join(Deno.cwd(), "config.json");
-      if (await exists(defaultConfigFile)) {
-        const content = await Deno.readTextFile(defaultConfigFile);
-        return JSON.parse(content) as Config;
-      }
-    }
-  } catch (error: any) {
-    console.error(colors.yellow(`Warning: Failed to read config file: ${error.message}`));
-  }
-  return null;
-}
-
-// Function to write configuration to file
-async function writeConfig(config: Config): Promise<void> {
-  try {
-    const configFile = getConfigFilePath(config.organization);
-    await Deno.writeTextFile(configFile, JSON.stringify(config, null, 2));
-  } catch (error: any) {
-    console.error(colors.yellow(`Warning: Failed to write config file: ${error.message}`));
-  }
-}
+import {extname, join} from "@std/path";
+import {ACTIVITY_KINDS} from "./src/activities.ts";
+import {DEFAULT_API_VERSION, DEFAULT_CONCURRENCY, DEFAULT_REQUEST_TIMEOUT_SECONDS, getConfigFilePath, listAvailableOrganizations, readConfig, removeConfig, SETTING_NAMES, setConfigValue, unsetConfigValue} from "./src/config.ts";
+import {CREDENTIAL_STORES, CredentialVault, getVaultFilePath, migrateLegacyVault} from "./src/credentials.ts";
+import {log} from "./src/logger.ts";
+import {NAME_VISIBILITIES} from "./src/privacy.ts";
+import {DEFAULT_SECRET_ENV, DEFAULT_WEBHOOK_HOSTNAME, DEFAULT_WEBHOOK_PORT, serveOrganization} from "./src/serve.ts";
+import {ExitCode, getBatchExitCode, printRunSummary, type SyncOptions, syncOrganization, type SyncResult} from "./src/sync.ts";
+import {validateTimeZone} from "./src/timezone.ts";
+import {DEFAULT_DAILY_CAP, WEIGHTINGS} from "./src/weighting.ts";
 
 // Function to wait for a keypress before exiting
 async function waitForKeyPress(): Promise<void> {
@@ -60,238 +21,118 @@ async function waitForKeyPress(): Promise<void> {
   await keypress();
 }
 
-// Function to list available organizations from config files
-async function listAvailableOrganizations(): Promise<string[]> {
-  const organizations: string[] = [];
-
+// Function to read the tool version from deno.json
+async function readVersion(): Promise<string> {
+  let version = "1.0.0";
   try {
-    // Read all files in the current directory
-    for await (const entry of Deno.readDir(Deno.cwd())) {
-      if (entry.isFile && entry.name.endsWith('.config.json')) {
-        // Extract organization name from filename (remove .config.json)
-        const orgName = entry.name.slice(0, -12);
-        organizations.push(orgName);
-      }
-    }
-
-    // Also check for the default config file
-    const defaultConfigFile = join(Deno.cwd(), "config.json");
-    if (await exists(defaultConfigFile)) {
-      try {
-        const content = await Deno.readTextFile(defaultConfigFile);
-        const config = JSON.parse(content) as Config;
-        if (config.organization && !organizations.includes(config.organization)) {
-          organizations.push(config.organization);
-        }
-      } catch (e) {
-        // Ignore errors reading the default config
-      }
-    }
-  } catch (error: any) {
-    console.error(colors.yellow(`Warning: Failed to list organizations: ${error.message}`));
+    const denoJsonPath = join(Deno.cwd(), "deno.json");
+    const denoJson = JSON.parse(await Deno.readTextFile(denoJsonPath));
+    version = denoJson.version || version;
+  } catch (e) {
+    // Ignore errors reading deno.json
   }
-
-  return organizations;
+  return version;
 }
 
-// Azure DevOps API client
-class AzureDevOpsClient {
-  private baseUrl: string;
-  private token: string;
-  private organization: string;
-
-  constructor(organization: string, token: string) {
-    this.organization = organization;
-    this.baseUrl = `https://dev.azure.com/${organization}`;
-    this.token = token;
-  }
-
-  private async request(path: string, method = "GET", body?: unknown): Promise<{ data: unknown, headers: Headers }> {
-    const headers = new Headers({
-      "Authorization": `Basic ${btoa(`:${this.token}`)}`,
-      "Content-Type": "application/json",
-    });
-
-    const response = await fetch(`${this.baseUrl}/${path}`, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Azure DevOps API error (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json();
-    return { data, headers: response.headers };
-  }
-
-  async getProjects(): Promise<any[]> {
-    const { data } = await this.request("_apis/projects?api-version=7.0");
-    return (data as { value: any[] }).value;
+// Function to parse a date given as a command line argument
+function parseDateArgument({ label, name, value }: ArgumentValue): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${label} "${name}" must be a valid date, but got "${value}".`);
   }
+  return date;
+}
 
-  async getRepositories(projectId: string): Promise<any[]> {
-    const { data } = await this.request(`${projectId}/_apis/git/repositories?api-version=7.0`);
-    return (data as { value: any[] }).value;
+// Function to parse a time zone, rejecting names the runtime does not know
+function parseTimeZoneArgument({ label, name, value }: ArgumentValue): string {
+  const valid = validateTimeZone(value);
+  if (valid !== true) {
+    throw new ValidationError(`${label} "${name}": ${valid}`);
   }
+  return value;
+}
 
-  async getCommits(projectId: string, repositoryId: string, authorEmail: string, fromDate?: Date): Promise<any[]> {
-    let path = `${projectId}/_apis/git/repositories/${repositoryId}/commits?api-version=7.0&searchCriteria.author=${encodeURIComponent(authorEmail)}`;
-
-    if (fromDate) {
-      path += `&searchCriteria.fromDate=${fromDate.toISOString()}`;
-    }
-
-    // Add a larger page size to reduce the number of API calls needed
-    path += "&$top=100";
-
-    let allCommits: any[] = [];
-    let isNext: boolean | null = null;
-
-    do {
-      // Add the continuation token if we have one
-      const currentPath = isNext
-        ? `${path}&$skip=${allCommits.length}`
-        : path;
-
-      const { data, headers } = await this.request(currentPath);
-      const responseData = data as { value: any[], count: number };
-
-      // Add the current page of commits to our result
-      allCommits = allCommits.concat(responseData.value);
-
-      // Check if there are more pages
-      // The continuation token is in the response headers
-      isNext = headers.get('link')?.includes('rel="next"') ?? false;
-
-    } while (isNext);
-
-    return allCommits;
+// Function to parse the end of a date range, including the whole day when no time is given
+function parseEndDateArgument(argument: ArgumentValue): Date {
+  const date = parseDateArgument(argument);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(argument.value.trim())) {
+    date.setUTCHours(23, 59, 59, 999);
   }
+  return date;
 }
 
-// Git operations
-class GitOperations {
-  private repoPath: string;
-  private filename: string;
+// Without a terminal or with --yes we never prompt and fail fast on missing settings
+function isInteractive(options: SyncOptions): boolean {
+  return !options.yes && Deno.stdin.isTerminal();
+}
 
-  constructor(repoPath: string, organization: string) {
-    this.repoPath = repoPath;
-    this.filename = "foo.txt";
+// Function to exit the process, waiting for a keypress first when running interactively
+async function exit(code: ExitCode, interactive: boolean): Promise<never> {
+  if (interactive) {
+    await waitForKeyPress();
   }
+  Deno.exit(code);
+}
 
-  async initRepo(): Promise<void> {
-    await ensureDir(this.repoPath);
-
-    if (!(await exists(join(this.repoPath, ".git")))) {
-      const cmd = new Deno.Command('git', {
-        args: ["init"],
-        stdout: "piped",
-        cwd: this.repoPath
-      });
-
-      const { success, stderr  } = await cmd.output();
-
-      if (!success) {
-        const stderrString = new TextDecoder().decode(stderr);
-        throw new Error(`Failed to initialize git repository: ${stderrString}`);
-      }
-    }
+// Function to parse an interactive organization selection such as "2", "1,3" or "all" into indexes
+function parseOrganizationSelection(value: string, count: number): number[] | null {
+  if (value.trim().toLowerCase() === "all") {
+    return Array.from({ length: count }, (_, index) => index);
   }
 
-  async createCommit(date: Date, message: string, content: string): Promise<void> {
-    // Create or override the file
-    const filePath = join(this.repoPath, this.filename);
-    await Deno.writeTextFile(filePath, content);
-
-    // Add to git
-    const addCmd = new Deno.Command('git', {
-      args: ["add", "."],
-      cwd: this.repoPath,
-      stdout: "piped",
-      stderr: "piped",
-    });
-
-    const { success, stderr } = await addCmd.output();
-    if (!success) {
-      const stderrString = new TextDecoder().decode(stderr);
-      throw new Error(`Failed to add files to git: ${stderrString}`);
-    }
-
-    // Commit with the original date
-    const commitCmd = new Deno.Command('git', {
-      args: ["commit", "--quiet", "--date", date.toISOString(), "-m", message],
-      cwd: this.repoPath,
-      stdout: "piped",
-      stderr: "piped",
-    });
-
-    const { success: commitSuccess, stderr: commitStderr } = await commitCmd.output();
-    if (!commitSuccess) {
-      const stderrString = new TextDecoder().decode(commitStderr);
-      throw new Error(`Failed to commit changes: ${stderrString}`);
-    }
+  const indexes = value.split(",").map(part => parseInt(part.trim()) - 1);
+  if (indexes.length === 0 || indexes.some(index => isNaN(index) || index < 0 || index >= count)) {
+    return null;
   }
+  return [...new Set(indexes)];
+}
 
-  async getLastCommitDate(): Promise<Date | null> {
-    if (!(await exists(join(this.repoPath, this.filename)))) {
-      return null;
-    }
-
-    try {
-      const logCmd = new Deno.Command('git', {
-        args: ["log", "-1", "--format=%cd", "--date=iso", "--", this.filename],
-        cwd: this.repoPath,
-        stdout: "piped",
-        stderr: "piped",
-      });
+// Function to give each organization of a batch run its own output file, e.g. report.json -> report.myorg.json
+function getOrganizationPath(path: string, organization: string): string {
+  const extension = extname(path);
+  return `${path.slice(0, path.length - extension.length)}.${organization}${extension}`;
+}
 
-      const { success, stdout } = await logCmd.output();
-      if (!success) {
-        return null;
-      }
+// Main application
+async function main(options: SyncOptions) {
+  const version = await readVersion();
 
-      const output = new TextDecoder().decode(stdout);
+  log.info(colors.bold(colors.blue(`\n🔄 Azure DevOps Contribution Sync Tool v${version} 🔄\n`)));
 
-      if (!output.trim()) {
-        return null;
-      }
+  const interactive = isInteractive(options);
 
-      return new Date(output.trim());
-    } catch {
-      return null;
-    }
+  // Fake commits of a combined repository cannot be told apart by organization
+  if (options.reconcile && options.combined) {
+    log.error(colors.red("Combined contributions repositories cannot be reconciled."));
+    return exit(ExitCode.InvalidUsage, interactive);
   }
-}
 
-// Main application
-async function main() {
-  // Read version from deno.json
-  let version = "1.0.0";
-  try {
-    const denoJsonPath = join(Deno.cwd(), "deno.json");
-    const denoJson = JSON.parse(await Deno.readTextFile(denoJsonPath));
-    version = denoJson.version || version;
-  } catch (e) {
-    // Ignore errors reading deno.json
-  }
-
-  console.log(colors.bold(colors.blue(`\n🔄 Azure DevOps Contribution Sync Tool v${version} 🔄\n`)));
-
-  let organization: string;
-  let token: string;
-  let emails: string[];
-  let existingConfig: Config | null = null;
+  let organizations: string[];
 
   // Step 1: Organization Selection
   const availableOrganizations = await listAvailableOrganizations();
 
-  if (availableOrganizations.length > 0) {
-    console.log(colors.yellow("Found saved organizations:"));
+  if (options.allOrgs) {
+    if (availableOrganizations.length === 0) {
+      log.error(colors.red("No saved organizations found to sync."));
+      return exit(ExitCode.InvalidUsage, interactive);
+    }
+    organizations = availableOrganizations;
+  } else if (options.orgs && options.orgs.length > 0) {
+    organizations = [...new Set(options.orgs)];
+  } else if (options.org) {
+    organizations = [options.org];
+  } else if (!interactive) {
+    if (availableOrganizations.length !== 1) {
+      log.error(colors.red("No organization given. Pass --org, --orgs or --all-orgs, or set AZURE_DEVOPS_ORG."));
+      return exit(ExitCode.InvalidUsage, interactive);
+    }
+    organizations = [availableOrganizations[0]];
+    log.info(colors.yellow(`Using saved organization: ${organizations[0]}`));
+  } else if (availableOrganizations.length > 0) {
+    log.info(colors.yellow("Found saved organizations:"));
     for (let i = 0; i < availableOrganizations.length; i++) {
-      console.log(colors.yellow(`  ${i + 1}. ${availableOrganizations[i]}`));
+      log.info(colors.yellow(`  ${i + 1}. ${availableOrganizations[i]}`));
     }
 
     const useExistingOrg = await Confirm.prompt({
@@ -300,264 +141,307 @@ async function main() {
     });
 
     if (useExistingOrg) {
-      let selectedIndex: number;
-
       if (availableOrganizations.length === 1) {
-        selectedIndex = 0;
-        console.log(colors.yellow(`Selected organization: ${availableOrganizations[0]}`));
+        organizations = [availableOrganizations[0]];
+        log.info(colors.yellow(`Selected organization: ${availableOrganizations[0]}`));
       } else {
         const selection = await Input.prompt({
-          message: "Enter the number of the organization to use:",
-          validate: (value) => {
-            const num = parseInt(value);
-            return (num > 0 && num <= availableOrganizations.length) 
-              ? true 
-              : `Please enter a number between 1 and ${availableOrganizations.length}`;
-          },
+          message: "Enter the number of the organization to use, several comma-separated numbers, or \"all\":",
+          validate: (value) => parseOrganizationSelection(value, availableOrganizations.length)
+            ? true
+            : `Please enter numbers between 1 and ${availableOrganizations.length}, or "all"`,
         });
-        selectedIndex = parseInt(selection) - 1;
+        organizations = parseOrganizationSelection(selection, availableOrganizations.length)!
+          .map(index => availableOrganizations[index]);
       }
-
-      organization = availableOrganizations[selectedIndex];
-      existingConfig = await readConfig(organization);
     } else {
-      organization = await Input.prompt({
+      organizations = [await Input.prompt({
         message: "Enter your Azure DevOps organization name:",
         validate: (value) => value.trim() ? true : "Organization name cannot be empty",
-      });
-      existingConfig = await readConfig(organization);
+      })];
     }
   } else {
-    console.log(colors.yellow("No saved organizations found."));
-    organization = await Input.prompt({
+    log.info(colors.yellow("No saved organizations found."));
+    organizations = [await Input.prompt({
       message: "Enter your Azure DevOps organization name:",
       validate: (value) => value.trim() ? true : "Organization name cannot be empty",
-    });
+    })];
   }
 
-  // Step 2: Azure DevOps Authentication
-  if (existingConfig?.token) {
-    console.log(colors.yellow(`Found saved Personal Access Token for organization: ${organization}`));
-    const useExisting = await Confirm.prompt({
-      message: "Use saved Personal Access Token?",
-      default: true,
-    });
+  const batch = organizations.length > 1;
+  if (batch) {
+    const action = options.reconcile ? "Reconciling" : "Syncing";
+    log.info(colors.yellow(`${action} ${organizations.length} organizations: ${organizations.join(", ")}`));
+  }
 
-    if (useExisting) {
-      token = existingConfig.token;
-    } else {
-      token = await Secret.prompt({
-        message: "Enter your Azure DevOps Personal Access Token (PAT):",
-        validate: (value) => value.trim() ? true : "PAT cannot be empty",
-      });
+  // The vault is shared, so its passphrase is only asked for once
+  await migrateLegacyVault();
+  const vault = new CredentialVault(getVaultFilePath(), async (create) => {
+    const passphrase = Deno.env.get(options.vaultPassphraseEnv);
+    if (passphrase) {
+      return passphrase;
     }
-  } else {
-    token = await Secret.prompt({
-      message: "Enter your Azure DevOps Personal Access Token (PAT):",
-      validate: (value) => value.trim() ? true : "PAT cannot be empty",
+    if (!interactive) {
+      throw new Error(`The credential vault is locked. Set ${options.vaultPassphraseEnv} to unlock it.`);
+    }
+    return await Secret.prompt({
+      message: create
+        ? "Choose a passphrase for your new credential vault:"
+        : "Enter the passphrase of your credential vault:",
+      validate: (value) => value ? true : "Passphrase cannot be empty",
     });
-  }
-
-  const azureClient = new AzureDevOpsClient(organization, token);
+  });
 
-  // Test connection
-  const spinner = ora({
-    text: "Testing connection to Azure DevOps...",
-  }).start();
+  // Sync each organization in turn; one failing organization does not stop the others
+  const contributionsBasePath = options.outputDir ?? join(Deno.cwd(), "contributions");
+  const results: SyncResult[] = [];
 
-  try {
-    await azureClient.getProjects();
-    spinner.succeed("Successfully connected to Azure DevOps");
-  } catch (error: any) {
-    spinner.fail(`Failed to connect to Azure DevOps: ${error.message}`);
-    await waitForKeyPress();
-    Deno.exit(1);
-  }
-
-  // Step 3: Get email addresses
-  if (existingConfig?.emails && existingConfig.emails.length > 0) {
-    console.log(colors.yellow(`Found saved email addresses for ${organization}: ${existingConfig.emails.join(", ")}`));
-    const useExisting = await Confirm.prompt({
-      message: "Use these email addresses?",
-      default: true,
-    });
+  for (const organization of organizations) {
+    if (batch) {
+      log.info(colors.bold(colors.blue(`\n━━━ ${organization} ━━━\n`)));
+    }
 
-    if (useExisting) {
-      emails = existingConfig.emails;
-    } else {
-      const emailInput = await Input.prompt({
-        message: "Enter email address(es) to search for (comma-separated for multiple):",
-        validate: (value) => {
-          const emails = value.split(",").map(e => e.trim());
-          if (emails.length === 0 || emails.some(e => !e)) {
-            return "Please enter at least one valid email address";
-          }
-          return true;
-        },
+    try {
+      results.push(await syncOrganization(organization, options, {
+        vault,
+        interactive,
+        contributionsPath: join(contributionsBasePath, options.combined ? "combined" : organization),
+        reportPath: options.report && batch ? getOrganizationPath(options.report, organization) : options.report,
+        heatmapPath: options.heatmapFile && batch ? getOrganizationPath(options.heatmapFile, organization) : options.heatmapFile,
+      }));
+    } catch (error: any) {
+      log.error(colors.bold(colors.red(`\n❌ Error: ${error.message}`)));
+      results.push({
+        organization,
+        exitCode: ExitCode.Failure,
+        found: 0,
+        duplicates: 0,
+        succeeded: [],
+        failed: [],
+        skipped: [],
+        message: error.message,
       });
-      emails = emailInput.split(",").map(e => e.trim());
     }
-  } else {
-    const emailInput = await Input.prompt({
-      message: "Enter email address(es) to search for (comma-separated for multiple):",
-      validate: (value) => {
-        const emails = value.split(",").map(e => e.trim());
-        if (emails.length === 0 || emails.some(e => !e)) {
-          return "Please enter at least one valid email address";
-        }
-        return true;
-      },
-    });
-    emails = emailInput.split(",").map(e => e.trim());
   }
 
-  // Save the configuration to organization-specific file
-  await writeConfig({
-    organization,
-    token,
-    emails,
-  });
-
-  console.log(colors.green(`Searching for commits by: ${emails.join(", ")}`));
-
-  // Step 4: Prepare the contributions folder and git repository
-  const contributionsBasePath = join(Deno.cwd(), "contributions");
-  const contributionsPath = join(contributionsBasePath, organization);
-  const gitOps = new GitOperations(contributionsPath, organization);
+  printRunSummary(results);
 
-  spinner.text = "Preparing contributions repository...";
-  spinner.start();
+  return exit(getBatchExitCode(results), interactive);
+}
 
-  try {
-    await gitOps.initRepo();
-    spinner.succeed("Contributions repository ready");
-  } catch (error: any) {
-    spinner.fail(`Failed to prepare git repository: ${error.message}`);
-    await waitForKeyPress();
-    Deno.exit(1);
+// Function to listen for Service Hook events of one organization until the process is stopped
+async function serve(options: SyncOptions) {
+  // Pushes arrive one by one as they happen, so there is nothing to report up front
+  if (options.dryRun) {
+    log.error(colors.red("The webhook listener cannot be run as a dry run. Use sync --dry-run instead."));
+    Deno.exit(ExitCode.InvalidUsage);
   }
 
-  // Get the last commit date if the file exists
-  const lastCommitDate = await gitOps.getLastCommitDate();
-  if (lastCommitDate) {
-    console.log(colors.yellow(`Found existing foo.txt with last commit date: ${lastCommitDate.toLocaleString()}`));
-    console.log(colors.yellow("Only processing commits after this date."));
+  const availableOrganizations = await listAvailableOrganizations();
+  const organization = options.org ?? (availableOrganizations.length === 1 ? availableOrganizations[0] : undefined);
+  if (!organization) {
+    log.error(colors.red("No organization given. Pass --org or set AZURE_DEVOPS_ORG."));
+    Deno.exit(ExitCode.InvalidUsage);
   }
 
-  // Calculate date 366 days ago
-  const oneYearAgo = new Date();
-  oneYearAgo.setDate(oneYearAgo.getDate() - 366);
-  console.log(colors.yellow(`Looking for commits within the last 366 days (since ${oneYearAgo.toLocaleString()})`));
-
-  // Step 5: Fetch projects and repositories
-  spinner.text = "Fetching projects...";
-  spinner.start();
-
-  let projects;
-  try {
-    projects = await azureClient.getProjects();
-    spinner.succeed(`Found ${projects.length} projects`);
-  } catch (error: any) {
-    spinner.fail(`Failed to fetch projects: ${error.message}`);
-    await waitForKeyPress();
-    Deno.exit(1);
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  Deno.addSignalListener("SIGINT", stop);
+  if (Deno.build.os !== "windows") {
+    Deno.addSignalListener("SIGTERM", stop);
   }
 
-  // Step 6: Process each project and repository
-  const allCommits: { commit: any; project: string; repository: string }[] = [];
-
-  for (let i = 0; i < projects.length; i++) {
-    const project = projects[i];
-    spinner.text = `Fetching repositories for project ${project.name} (${i + 1}/${projects.length})...`;
-    spinner.start();
+  const contributionsBasePath = options.outputDir ?? join(Deno.cwd(), "contributions");
+  Deno.exit(await serveOrganization(organization, options, {
+    contributionsPath: join(contributionsBasePath, options.combined ? "combined" : organization),
+    signal: controller.signal,
+  }));
+}
 
-    try {
-      const repositories = await azureClient.getRepositories(project.id);
-      spinner.succeed(`Found ${repositories.length} repositories in project ${project.name}`);
-
-      for (let j = 0; j < repositories.length; j++) {
-        const repo = repositories[j];
-        spinner.text = `Searching commits in ${project.name}/${repo.name} (${j + 1}/${repositories.length})...`;
-        spinner.start();
-
-        for (const email of emails) {
-          try {
-            const commits = await azureClient.getCommits(project.id, repo.id, email, lastCommitDate || undefined);
-
-            if (commits.length > 0) {
-              allCommits.push(...commits.map(commit => ({
-                commit,
-                project: project.name,
-                repository: repo.name,
-              })));
-
-              spinner.text = `Found ${commits.length} commits by ${email} in ${project.name}/${repo.name}`;
-            }
-          } catch (error: any) {
-            console.error(colors.red(`Error fetching commits for ${email} in ${project.name}/${repo.name}: ${error.message}`));
-          }
-        }
-
-        spinner.succeed(`Processed ${project.name}/${repo.name}`);
-      }
-    } catch (error: any) {
-      spinner.fail(`Failed to fetch repositories for project ${project.name}: ${error.message}`);
-    }
+// Function to list the saved organizations and the email addresses mirrored for them
+async function listConfigs() {
+  const organizations = await listAvailableOrganizations();
+  log.info(colors.blue(`Settings are saved in ${getConfigFilePath()}`));
+  if (organizations.length === 0) {
+    log.info(colors.yellow("No saved organizations found."));
+    return;
   }
 
-  // Step 7: Sort commits by date and process them
-  console.log(colors.blue(`\nFound a total of ${allCommits.length} commits across all repositories`));
-
-  if (allCommits.length === 0) {
-    console.log(colors.yellow("No commits found for the specified email addresses."));
-    await waitForKeyPress();
-    Deno.exit(0);
+  const width = Math.max(...organizations.map(organization => organization.length));
+  for (const organization of organizations) {
+    const config = await readConfig(organization);
+    console.log(`${organization.padEnd(width)}  ${colors.gray(config?.emails.join(", ") ?? "")}`);
   }
+}
 
-  // Sort commits by date (oldest first)
-  allCommits.sort((a, b) => {
-    return new Date(a.commit.author.date).getTime() - new Date(b.commit.author.date).getTime();
-  });
-
-  // Process commits
-  console.log(colors.blue("\nProcessing commits and creating fake contributions..."));
-
-  const progressSpinner = ora({
-    text: `Processing commits (0/${allCommits.length})`,
-  }).start();
+// Function to print the saved settings of an organization as JSON, hiding plaintext tokens
+async function showConfig(organization: string) {
+  const config = await readConfig(organization);
+  if (!config) {
+    log.error(colors.red(`No settings saved for ${organization}.`));
+    Deno.exit(ExitCode.InvalidUsage);
+  }
+  console.log(JSON.stringify({ ...config, token: config.token && "[hidden]" }, null, 2));
+}
 
-  for (let i = 0; i < allCommits.length; i++) {
-    const { commit, project, repository } = allCommits[i];
-    const date = new Date(commit.author.date);
-    const message = `fake commit (original: ${commit.commitId.substring(0, 8)} from ${project}/${repository})`;
-    const content = `Commit made on ${date.toLocaleString()}\nOriginal commit: ${commit.commitId}\nProject: ${project}\nRepository: ${repository}\nAuthor: ${commit.author.name} <${commit.author.email}>\nMessage: ${commit.comment}`;
+// Function to change a saved setting of an organization
+async function setConfig(organization: string, name: string, value: string) {
+  try {
+    await setConfigValue(organization, name, value);
+    log.info(colors.green(`Saved ${name} of ${organization}`));
+  } catch (error: any) {
+    log.error(colors.red(error.message));
+    Deno.exit(ExitCode.InvalidUsage);
+  }
+}
 
-    progressSpinner.text = `Processing commits (${i + 1}/${allCommits.length})`;
+// Function to remove a saved setting of an organization, or all of its settings after confirming
+async function removeConfigs(options: SyncOptions, organization: string, name?: string) {
+  try {
+    if (name) {
+      await unsetConfigValue(organization, name);
+      log.info(colors.green(`Removed ${name} of ${organization}`));
+      return;
+    }
 
-    try {
-      await gitOps.createCommit(date, message, content);
-    } catch (error: any) {
-      progressSpinner.fail(`Failed to create commit: ${error.message}`);
-      console.error(colors.red(`Error processing commit ${commit.commitId}: ${error.message}`));
+    const confirmed = !isInteractive(options) || await Confirm.prompt({
+      message: `Remove all saved settings of ${organization}?`,
+      default: false,
+    });
+    if (!confirmed) {
+      return;
     }
+    if (!(await removeConfig(organization))) {
+      throw new Error(`No settings saved for ${organization}.`);
+    }
+    log.info(colors.green(`Removed the settings of ${organization}. Its token stays in the credential vault.`));
+  } catch (error: any) {
+    log.error(colors.red(error.message));
+    Deno.exit(ExitCode.InvalidUsage);
   }
+}
 
-  progressSpinner.succeed(`Successfully processed all ${allCommits.length} commits`);
+// Function to run the tool with the parsed command line, reporting unexpected errors
+async function run(options: SyncOptions, command: (options: SyncOptions) => Promise<void> = main): Promise<void> {
+  try {
+    await log.configure(options.verbose ? "debug" : options.quiet ? "warn" : "info", options.logFile);
+    await command(options);
+  } catch (error: any) {
+    log.error(colors.bold(colors.red(`\n❌ Error: ${error.message}`)));
+    await exit(ExitCode.Failure, isInteractive(options));
+  }
+}
 
-  console.log(colors.bold(colors.green("\n✅ Contribution sync completed successfully!")));
-  console.log(colors.blue(`Your contributions have been synced to: ${contributionsPath}`));
+// Commands to manage the saved settings without going through a sync. The options hold the global
+// options of the main command, such as --verbose and --yes.
+function createConfigCommand() {
+  return new Command()
+    .description(`List, show and change the settings saved per organization. Settings: ${SETTING_NAMES.join(", ")}.`)
+    .action(function () {
+      this.showHelp();
+    })
+    .command("list", "List the saved organizations.")
+    .action((options) => run(options as SyncOptions, listConfigs))
+    .command("show <organization:string>", "Show the saved settings of an organization.")
+    .action((options, organization) => run(options as SyncOptions, () => showConfig(organization)))
+    .command("set <organization:string> <setting:string> <value:string>", "Change a saved setting, e.g. weighting daily-cap. Lists are comma-separated.")
+    .action((options, organization, setting, value) => run(options as SyncOptions, () => setConfig(organization, setting, value)))
+    .command("remove <organization:string> [setting:string]", "Remove a saved setting, or all settings of an organization.")
+    .action((options, organization, setting) => run(options as SyncOptions, () => removeConfigs(options as SyncOptions, organization, setting)));
+}
 
-  // Wait for keypress before exiting
-  await waitForKeyPress();
+// Command line interface
+function createCommand(version: string) {
+  return new Command()
+    .name("csync-azd")
+    .version(version)
+    .description("Sync your Azure DevOps commits as fake commits to a local Git repository.")
+    .type("date", parseDateArgument)
+    .globalOption("-o, --org <organization:string>", "Azure DevOps organization name.")
+    .globalOption("--orgs <organizations:string[]>", "Comma-separated organizations to sync one after another.", {
+      conflicts: ["org", "all-orgs"],
+    })
+    .globalOption("--all-orgs", "Sync every saved organization.", { conflicts: ["org"] })
+    .globalOption("--combined", "Mirror all organizations into one combined contributions repository.")
+    .globalOption("-e, --emails <emails:string[]>", "Comma-separated email addresses to search commits for.")
+    .globalOption("--match-committer <enabled:boolean>", "Also mirror commits you committed but did not author (saved per organization).")
+    .globalOption("--base-url <url:string>", "Collection URL for Azure DevOps Server or *.visualstudio.com (saved per organization).")
+    .globalOption("--api-version <version:string>", `REST API version to request (default: ${DEFAULT_API_VERSION}, saved per organization).`)
+    .globalOption("--ca-cert <path:string>", "PEM file with additional CA certificates (saved per organization).")
+    .globalOption("--proxy <url:string>", "Proxy for Azure DevOps requests (saved per organization).")
+    .globalOption("--token-env <name:string>", "Environment variable holding the Personal Access Token.", {
+      default: "AZURE_DEVOPS_PAT",
+    })
+    .globalType("token-store", new EnumType(CREDENTIAL_STORES))
+    .globalOption("--token-file <path:string>", "File holding the Personal Access Token.")
+    .globalOption("--token-store <store:token-store>", "Where to keep the Personal Access Token between runs.")
+    .globalOption("--vault-passphrase-env <name:string>", "Environment variable holding the credential vault passphrase.", {
+      default: "CSYNC_AZD_VAULT_PASSPHRASE",
+    })
+    .globalOption("--output-dir <path:string>", "Directory for the contributions repositories (default: ./contributions).")
+    .type("end-date", parseEndDateArgument)
+    .option("--since <date:date>", "Only mirror commits made on or after this date.")
+    .option("--until <date:end-date>", "Only mirror commits made on or before this date.")
+    .option("--lookback-days <days:integer>", "Days to look back when --since is not given (saved per organization).")
+    .type("activity", new EnumType(ACTIVITY_KINDS))
+    .option("--activities <kinds:activity[]>", "Activities to mirror: commits, changesets, pr-created, pr-completed, pr-reviewed, work-items (saved per organization).")
+    .type("name-visibility", new EnumType(NAME_VISIBILITIES))
+    .type("weighting", new EnumType(WEIGHTINGS))
+    .option("--names <visibility:name-visibility>", "Show project, repository and branch names in full, hashed or redacted (saved per organization).")
+    .option("--messages <include:boolean>", "Include original commit messages and titles (saved per organization).")
+    .option("--authors <include:boolean>", "Include original author names and emails (saved per organization).")
+    .option("--redact <pattern:string>", "Regular expression to replace with [redacted], repeatable (saved per organization).", {
+      collect: true,
+    })
+    .option("--message-template <template:string>", "Template for fake commit messages (saved per organization).")
+    .option("--content-template <template:string>", "Template for fake commit file content (saved per organization).")
+    .option("--weighting <strategy:weighting>", "Fake commits per original: per-commit, daily-cap or daily (saved per organization).")
+    .option("--daily-cap <count:integer>", `Fake commits per day with --weighting daily-cap (default: ${DEFAULT_DAILY_CAP}, saved per organization).`)
+    .option("--change-size <enabled:boolean>", "Size fake commits by the files the original commit changed (saved per organization).")
+    .type("time-zone", parseTimeZoneArgument)
+    .option("--timezone <zone:time-zone>", "Write fake commits in this time zone instead of each original's offset, e.g. Asia/Tokyo, -07:00 or local (saved per organization).")
+    .globalOption("--remote <url:string>", "Remote to publish the contributions repository to (saved per organization).")
+    .globalOption("--branch <name:string>", "Remote branch to push to (default: the current branch, saved per organization).")
+    .globalOption("--push <enabled:boolean>", "Push to the remote after a successful sync (saved per organization).")
+    .option("--push-dry-run", "Only show what would be pushed to the remote.")
+    .globalOption("--commit-name <name:string>", "Author name of the fake commits (saved per organization).")
+    .globalOption("--commit-email <email:string>", "Author email of the fake commits, e.g. your GitHub email (saved per organization).")
+    .globalOption("--projects <patterns:string[]>", "Project name patterns to include, or exclude with a leading \"!\" (saved per organization).")
+    .globalOption("--repos <patterns:string[]>", "Repository patterns such as \"Platform/*\" or \"!*-sandbox\" (saved per organization).")
+    .globalOption("--skip-forks", "Skip forked repositories (saved per organization).")
+    .globalOption("--branches <patterns:string[]>", "Branch patterns to search for commits, e.g. \"**\" for all (default: the default branch, saved per organization).")
+    .globalOption("--concurrency <count:integer>", `Repositories to search at the same time (default: ${DEFAULT_CONCURRENCY}, saved per organization).`)
+    .globalOption("--request-timeout <seconds:number>", `Timeout for a single API request (default: ${DEFAULT_REQUEST_TIMEOUT_SECONDS}, saved per organization).`)
+    .globalOption("--dry-run", "Only report what would be mirrored or removed, without writing anything.")
+    .option("--resume <enabled:boolean>", "Resume an interrupted sync from its checkpoint (default: ask, or resume with --yes).")
+    .option("--heatmap", "Preview the GitHub contribution graph before and after the sync (always shown in dry runs).")
+    .option("--heatmap-file <path:string>", "Write the contribution graph as a standalone HTML page, or as SVG for .svg paths.")
+    .option("--report <path:string>", "Write a report of the contributions found as JSON, or as CSV for .csv paths.")
+    .globalOption("-v, --verbose", "Show debug messages, such as every API request.", { conflicts: ["quiet"] })
+    .globalOption("-q, --quiet", "Only show warnings, errors and prompts.")
+    .globalOption("--log-file <path:string>", "Append a JSON log of the run, including its summary, to this file.")
+    .globalOption("-y, --yes", "Never prompt; use flags, environment variables and saved settings.")
+    .globalEnv("AZURE_DEVOPS_ORG=<organization:string>", "Azure DevOps organization name.", { prefix: "AZURE_DEVOPS_" })
+    .globalEnv("AZURE_DEVOPS_BASE_URL=<url:string>", "Collection URL for Azure DevOps Server.", { prefix: "AZURE_DEVOPS_" })
+    .globalEnv("CSYNC_AZD_EMAILS=<emails:string[]>", "Comma-separated email addresses.", { prefix: "CSYNC_AZD_" })
+    .globalEnv("CSYNC_AZD_OUTPUT_DIR=<path:string>", "Directory for the contributions repositories.", { prefix: "CSYNC_AZD_" })
+    .env("CSYNC_AZD_SINCE=<date:date>", "Only mirror commits made on or after this date.", { prefix: "CSYNC_AZD_" })
+    .env("CSYNC_AZD_UNTIL=<date:end-date>", "Only mirror commits made on or before this date.", { prefix: "CSYNC_AZD_" })
+    .env("CSYNC_AZD_LOOKBACK_DAYS=<days:integer>", "Days to look back when no start date is given.", { prefix: "CSYNC_AZD_" })
+    .action((options) => run(options))
+    .command("reconcile", "Remove fake commits whose original contributions no longer exist in Azure DevOps.")
+    .action((options) => run({ ...options, reconcile: true }))
+    .command("serve", "Listen for git.push Service Hook events and mirror the pushed commits as they arrive.")
+    .option("--port <port:integer>", `Port to listen on (default: ${DEFAULT_WEBHOOK_PORT}).`)
+    .option("--hostname <address:string>", `Address to listen on (default: ${DEFAULT_WEBHOOK_HOSTNAME}).`)
+    .option("--secret-env <name:string>", "Environment variable holding the shared secret of the Service Hook.", {
+      default: DEFAULT_SECRET_ENV,
+    })
+    .action((options) => run(options, serve))
+    .command("config", createConfigCommand());
 }
 
 // Run the application
 if (import.meta.main) {
-  try {
-    await main();
-  } catch (error: any) {
-    console.error(colors.bold(colors.red(`\n❌ Error: ${error.message}`)));
-    await waitForKeyPress();
-    Deno.exit(1);
-  }
+  await createCommand(await readVersion()).parse(Deno.args);
 }
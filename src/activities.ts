@@ -0,0 +1,193 @@
+import {parseUtcOffset} from "./timezone.ts";
+
+// Kinds of Azure DevOps activity that can be mirrored as fake commits
+export const ACTIVITY_KINDS = ["commits", "changesets", "pr-created", "pr-completed", "pr-reviewed", "work-items"] as const;
+export type ActivityKind = typeof ACTIVITY_KINDS[number];
+
+// Kinds mirrored when none are configured: the code a user wrote, in Git or TFVC
+export const DEFAULT_ACTIVITY_KINDS: ActivityKind[] = ["commits", "changesets"];
+
+// Azure DevOps contribution that becomes one fake commit
+export interface Activity {
+  kind: ActivityKind;
+  // Key in the sync ledger: the commit ID for commits, "<kind>:<id>" for everything else
+  id: string;
+  date: Date;
+  // Offset the original was made in, in minutes east of UTC, when Azure DevOps tells
+  utcOffset?: number;
+  project: string;
+  repository?: string;
+  // Branch a commit was found on
+  branch?: string;
+  // Files a commit added, edited and deleted
+  changes?: { added: number; edited: number; deleted: number };
+  // Commit ID, changeset, pull request or work item number shown in the fake commit message
+  reference: string;
+  title: string;
+  authorName: string;
+  authorEmail: string;
+}
+
+// Function to check whether an Azure DevOps identity belongs to one of the email addresses
+function matchesIdentity(identity: any, emails: string[]): boolean {
+  const uniqueName = identity?.uniqueName?.toLowerCase();
+  return !!uniqueName && emails.some(email => email.toLowerCase() === uniqueName);
+}
+
+// Function to check whether a commit was authored, or optionally committed, under one of the email addresses
+export function matchesCommit(commit: any, emails: string[], includeCommitter: boolean): boolean {
+  const addresses = [commit.author?.email, includeCommitter ? commit.committer?.email : undefined]
+    .filter((address): address is string => !!address)
+    .map(address => address.toLowerCase());
+  return emails.some(email => addresses.includes(email.toLowerCase()));
+}
+
+// Function to turn a commit into an activity
+export function commitActivity(commit: any, project: string, repository: string, branch?: string): Activity {
+  return {
+    kind: "commits",
+    id: commit.commitId,
+    date: new Date(commit.author.date),
+    utcOffset: parseUtcOffset(commit.author.date),
+    project,
+    repository,
+    branch,
+    changes: commit.changeCounts
+      ? {
+        added: commit.changeCounts.Add ?? 0,
+        edited: commit.changeCounts.Edit ?? 0,
+        deleted: commit.changeCounts.Delete ?? 0,
+      }
+      : undefined,
+    reference: commit.commitId,
+    title: commit.comment,
+    authorName: commit.author.name,
+    authorEmail: commit.author.email,
+  };
+}
+
+// Function to check whether a TFVC changeset was checked in by one of the email addresses
+export function matchesChangeset(changeset: any, emails: string[]): boolean {
+  return matchesIdentity(changeset.author, emails);
+}
+
+// Kinds whose IDs are only unique within an organization, so their activity IDs include an organization key
+const ORGANIZATION_SCOPED_KINDS: ActivityKind[] = ["changesets", "work-items"];
+
+// Function to get the key of an organization in activity IDs. The IDs are written to the fake commits,
+// so they hold a hash of the organization name rather than the name itself.
+export async function getOrganizationKey(organization: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(organization));
+  return Array.from(new Uint8Array(digest).slice(0, 4), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Function to update an activity ID of older versions, which held the organization name instead of its key
+export function migrateActivityId(id: string, organization: string, organizationKey: string): string {
+  for (const kind of ORGANIZATION_SCOPED_KINDS) {
+    const prefix = `${kind}:${organization}/`;
+    if (id.startsWith(prefix)) {
+      return `${kind}:${organizationKey}/${id.substring(prefix.length)}`;
+    }
+  }
+  return id;
+}
+
+// Function to turn a TFVC changeset into an activity
+export function changesetActivity(organizationKey: string, changeset: any, project: string): Activity {
+  return {
+    kind: "changesets",
+    // Changeset IDs are only unique within an organization
+    id: `changesets:${organizationKey}/${changeset.changesetId}`,
+    date: new Date(changeset.createdDate),
+    project,
+    reference: `C${changeset.changesetId}`,
+    title: changeset.comment ?? "",
+    authorName: changeset.author.displayName,
+    authorEmail: changeset.author.uniqueName,
+  };
+}
+
+// Function to turn a pull request into the activities of the given identities
+export function pullRequestActivities(pullRequest: any, project: string, emails: string[], kinds: ActivityKind[]): Activity[] {
+  const activities: Activity[] = [];
+  const base = {
+    project,
+    repository: pullRequest.repository?.name,
+    reference: `!${pullRequest.pullRequestId}`,
+    title: pullRequest.title,
+  };
+  const key = `${pullRequest.repository?.id}/${pullRequest.pullRequestId}`;
+  const createdByUser = matchesIdentity(pullRequest.createdBy, emails);
+
+  if (kinds.includes("pr-created") && createdByUser) {
+    activities.push({
+      ...base,
+      kind: "pr-created",
+      id: `pr-created:${key}`,
+      date: new Date(pullRequest.creationDate),
+      authorName: pullRequest.createdBy.displayName,
+      authorEmail: pullRequest.createdBy.uniqueName,
+    });
+  }
+
+  if (kinds.includes("pr-completed") && pullRequest.status === "completed" && matchesIdentity(pullRequest.closedBy, emails)) {
+    activities.push({
+      ...base,
+      kind: "pr-completed",
+      id: `pr-completed:${key}`,
+      date: new Date(pullRequest.closedDate),
+      authorName: pullRequest.closedBy.displayName,
+      authorEmail: pullRequest.closedBy.uniqueName,
+    });
+  }
+
+  // The API has no vote date, so reviews are dated when the pull request was closed
+  const reviewer = (pullRequest.reviewers ?? []).find((r: any) => r.vote !== 0 && matchesIdentity(r, emails));
+  if (kinds.includes("pr-reviewed") && reviewer && !createdByUser) {
+    activities.push({
+      ...base,
+      kind: "pr-reviewed",
+      id: `pr-reviewed:${key}`,
+      date: new Date(pullRequest.closedDate ?? pullRequest.creationDate),
+      authorName: reviewer.displayName,
+      authorEmail: reviewer.uniqueName,
+    });
+  }
+
+  return activities;
+}
+
+// Function to turn the work item updates made by the given identities into activities
+export function workItemActivities(
+  organizationKey: string,
+  workItemId: number,
+  updates: any[],
+  project: string,
+  emails: string[],
+): Activity[] {
+  let title = "";
+  const activities: Activity[] = [];
+
+  for (const update of updates) {
+    title = update.fields?.["System.Title"]?.newValue ?? title;
+    const changedDate = update.fields?.["System.ChangedDate"]?.newValue;
+
+    if (!changedDate || !matchesIdentity(update.revisedBy, emails)) {
+      continue;
+    }
+
+    activities.push({
+      kind: "work-items",
+      // Work item IDs are only unique within an organization
+      id: `work-items:${organizationKey}/${workItemId}/${update.rev}`,
+      date: new Date(changedDate),
+      project,
+      reference: `#${workItemId}`,
+      title,
+      authorName: update.revisedBy.displayName,
+      authorEmail: update.revisedBy.uniqueName,
+    });
+  }
+
+  return activities;
+}
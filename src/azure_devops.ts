@@ -0,0 +1,348 @@
+import {sleep} from "./concurrency.ts";
+import {DEFAULT_API_VERSION, DEFAULT_REQUEST_TIMEOUT_SECONDS} from "./config.ts";
+
+// Who the Personal Access Token belongs to, as far as Azure DevOps tells
+interface UserIdentity {
+  displayName?: string;
+  emails: string[];
+  // Other names of the account, such as DOMAIN\user on Azure DevOps Server
+  aliases: string[];
+}
+
+// Options for the Azure DevOps API client
+interface AzureDevOpsClientOptions {
+  // Defaults to https://dev.azure.com/<organization>
+  baseUrl?: string;
+  apiVersion?: string;
+  // Custom CA certificates or proxy
+  httpClient?: Deno.HttpClient;
+  timeoutSeconds?: number;
+  maxRetries?: number;
+  // Called before waiting to retry a failed or throttled request
+  onRetry?: (message: string) => void;
+  // Called before every request
+  onRequest?: (method: string, url: string) => void;
+}
+
+// Azure DevOps API client
+export class AzureDevOpsClient {
+  // Responses worth retrying: throttling and transient server errors
+  private static readonly RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+  private static readonly MAX_BACKOFF_MS = 60_000;
+
+  private baseUrl: string;
+  private token: string;
+  private organization: string;
+  private apiVersion: string;
+  private httpClient?: Deno.HttpClient;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private onRetry: (message: string) => void;
+  private onRequest: (method: string, url: string) => void;
+  // Shared by all concurrent requests, so a throttled request pauses the others too
+  private pausedUntil = 0;
+
+  constructor(organization: string, token: string, options: AzureDevOpsClientOptions = {}) {
+    this.organization = organization;
+    this.baseUrl = (options.baseUrl ?? `https://dev.azure.com/${organization}`).replace(/\/+$/, "");
+    this.token = token;
+    this.apiVersion = options.apiVersion ?? DEFAULT_API_VERSION;
+    this.httpClient = options.httpClient;
+    this.timeoutMs = (options.timeoutSeconds ?? DEFAULT_REQUEST_TIMEOUT_SECONDS) * 1000;
+    this.maxRetries = options.maxRetries ?? 5;
+    this.onRetry = options.onRetry ?? (() => {});
+    this.onRequest = options.onRequest ?? (() => {});
+  }
+
+  private async request(path: string, method = "GET", body?: unknown): Promise<{ data: unknown, headers: Headers }> {
+    const headers = new Headers({
+      "Authorization": `Basic ${btoa(`:${this.token}`)}`,
+      "Content-Type": "application/json",
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+      }
+
+      // Paths may be absolute for APIs on other hosts, and may pin their own (preview) API version
+      const separator = path.includes("?") ? "&" : "?";
+      const base = /^https?:\/\//.test(path) ? path : `${this.baseUrl}/${path}`;
+      const url = path.includes("api-version=") ? base : `${base}${separator}api-version=${this.apiVersion}`;
+
+      this.onRequest(method, url);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: body ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(this.timeoutMs),
+          client: this.httpClient,
+        });
+      } catch (error: any) {
+        const reason = error.name === "TimeoutError"
+          ? `timed out after ${this.timeoutMs / 1000}s`
+          : error.message;
+
+        if (attempt >= this.maxRetries) {
+          throw new Error(`Azure DevOps API request failed: ${reason}`);
+        }
+
+        const wait = this.backoff(attempt);
+        this.onRetry(`Azure DevOps API request ${reason}, retrying in ${Math.ceil(wait / 1000)}s...`);
+        await sleep(wait);
+        continue;
+      }
+
+      this.applyRateLimit(response.headers);
+
+      if (response.ok) {
+        const data = await response.json();
+        return { data, headers: response.headers };
+      }
+
+      const errorText = await response.text();
+
+      // Older Azure DevOps Server versions reject newer API versions and name the latest they support
+      const supportedVersion = response.status === 400 && errorText.includes("VssVersionOutOfRangeException")
+        ? errorText.match(/supports is (\d+(?:\.\d+)*)/)?.[1]
+        : undefined;
+      if (supportedVersion && supportedVersion !== this.apiVersion) {
+        this.onRetry(`Azure DevOps Server does not support API version ${this.apiVersion}, retrying with ${supportedVersion}...`);
+        this.apiVersion = supportedVersion;
+        continue;
+      }
+
+      if (!AzureDevOpsClient.RETRYABLE_STATUS.has(response.status) || attempt >= this.maxRetries) {
+        throw new Error(`Azure DevOps API error (${response.status}): ${errorText}`);
+      }
+
+      const wait = this.retryAfter(response.headers) ?? this.backoff(attempt);
+      if (response.status === 429) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+      }
+      this.onRetry(`Azure DevOps API returned ${response.status}, retrying in ${Math.ceil(wait / 1000)}s...`);
+      await sleep(wait);
+    }
+  }
+
+  // Exponential backoff with jitter
+  private backoff(attempt: number): number {
+    const wait = 1000 * 2 ** attempt + Math.random() * 1000;
+    return Math.min(wait, AzureDevOpsClient.MAX_BACKOFF_MS);
+  }
+
+  // Milliseconds to wait according to a Retry-After header, given in seconds or as an HTTP date
+  private retryAfter(headers: Headers): number | null {
+    const value = headers.get("retry-after");
+    if (!value) {
+      return null;
+    }
+
+    const seconds = Number(value);
+    const wait = isNaN(seconds) ? new Date(value).getTime() - Date.now() : seconds * 1000;
+    return isNaN(wait) ? null : Math.max(0, wait);
+  }
+
+  // Azure DevOps announces throttling with Retry-After and X-RateLimit-* headers,
+  // even on successful responses. Pause all requests until the limit resets.
+  private applyRateLimit(headers: Headers): void {
+    const retryAfter = this.retryAfter(headers);
+    if (retryAfter !== null) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfter);
+    }
+
+    const remaining = headers.get("x-ratelimit-remaining");
+    const reset = Number(headers.get("x-ratelimit-reset"));
+    if (remaining !== null && Number(remaining) <= 0 && reset > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, reset * 1000);
+    }
+  }
+
+  // Email addresses and aliases of the token owner. Connection data works everywhere;
+  // the profile API only exists on Azure DevOps Services and needs the profile scope.
+  async getIdentity(): Promise<UserIdentity> {
+    const emails = new Set<string>();
+    const aliases = new Set<string>();
+    const add = (value: unknown) => {
+      if (typeof value === "string" && value.trim()) {
+        (value.includes("@") ? emails : aliases).add(value.trim());
+      }
+    };
+
+    const { data } = await this.request("_apis/connectionData?api-version=5.0-preview");
+    const user = (data as any).authenticatedUser ?? {};
+    add(user.properties?.Account?.$value);
+    add(user.properties?.Mail?.$value);
+
+    let displayName: string | undefined = user.customDisplayName ?? user.providerDisplayName;
+
+    if (/^https:\/\/(dev\.azure\.com|[^/]+\.visualstudio\.com)\//.test(this.baseUrl + "/")) {
+      try {
+        const { data: profile } = await this.request(
+          "https://app.vssps.visualstudio.com/_apis/profile/profiles/me?api-version=7.0",
+        );
+        add((profile as any).emailAddress);
+        displayName ??= (profile as any).displayName;
+      } catch {
+        // Tokens without the profile scope still get the connection data
+      }
+    }
+
+    return { displayName, emails: [...emails], aliases: [...aliases] };
+  }
+
+  async getProjects(): Promise<any[]> {
+    const { data } = await this.request("_apis/projects");
+    return (data as { value: any[] }).value;
+  }
+
+  async getRepositories(projectId: string): Promise<any[]> {
+    const { data } = await this.request(`${projectId}/_apis/git/repositories`);
+    return (data as { value: any[] }).value;
+  }
+
+  // Projects created for Team Foundation Version Control, or with TFVC enabled next to Git
+  async hasTfvc(projectId: string): Promise<boolean> {
+    const { data } = await this.request(`_apis/projects/${projectId}?includeCapabilities=true`);
+    const versionControl = (data as any).capabilities?.versioncontrol ?? {};
+    return String(versionControl.tfvcEnabled).toLowerCase() === "true" || versionControl.sourceControlType === "Tfvc";
+  }
+
+  // TFVC changesets checked in by an author, given as unique name, within the date range
+  async getChangesets(projectId: string, author: string, fromDate?: Date, toDate?: Date): Promise<any[]> {
+    let path = `${projectId}/_apis/tfvc/changesets?searchCriteria.author=${encodeURIComponent(author)}` +
+      "&maxCommentLength=1000&$top=100";
+
+    if (fromDate) {
+      path += `&searchCriteria.fromDate=${fromDate.toISOString()}`;
+    }
+
+    if (toDate) {
+      path += `&searchCriteria.toDate=${toDate.toISOString()}`;
+    }
+
+    let allChangesets: any[] = [];
+    let page: any[];
+
+    // Changesets are paged with $skip only; a short page is the last one
+    do {
+      const { data } = await this.request(`${path}&$skip=${allChangesets.length}`);
+      page = (data as { value: any[] }).value;
+      allChangesets = allChangesets.concat(page);
+    } while (page.length === 100);
+
+    return allChangesets;
+  }
+
+  // All commits of the date range; searchCriteria.author matches display names loosely, so authors are matched locally.
+  // Without a branch only the history of the default branch is searched.
+  async getCommits(projectId: string, repositoryId: string, fromDate?: Date, toDate?: Date, branch?: string): Promise<any[]> {
+    // Add a larger page size to reduce the number of API calls needed
+    let path = `${projectId}/_apis/git/repositories/${repositoryId}/commits?$top=100`;
+
+    if (branch) {
+      path += `&searchCriteria.itemVersion.version=${encodeURIComponent(branch)}&searchCriteria.itemVersion.versionType=branch`;
+    }
+
+    if (fromDate) {
+      path += `&searchCriteria.fromDate=${fromDate.toISOString()}`;
+    }
+
+    if (toDate) {
+      path += `&searchCriteria.toDate=${toDate.toISOString()}`;
+    }
+
+    let allCommits: any[] = [];
+    let isNext: boolean | null = null;
+
+    do {
+      // Add the continuation token if we have one
+      const currentPath = isNext
+        ? `${path}&$skip=${allCommits.length}`
+        : path;
+
+      const { data, headers } = await this.request(currentPath);
+      const responseData = data as { value: any[], count: number };
+
+      // Add the current page of commits to our result
+      allCommits = allCommits.concat(responseData.value);
+
+      // Check if there are more pages
+      // The continuation token is in the response headers
+      isNext = headers.get('link')?.includes('rel="next"') ?? false;
+
+    } while (isNext);
+
+    return allCommits;
+  }
+
+  // Branch names without the refs/heads/ prefix
+  async getBranches(projectId: string, repositoryId: string): Promise<string[]> {
+    const refs = await this.getContinuedList(`${projectId}/_apis/git/repositories/${repositoryId}/refs?filter=heads/`);
+    return refs.map(ref => ref.name.replace(/^refs\/heads\//, ""));
+  }
+
+  // Commits of a pull request, which outlive its source branch
+  async getPullRequestCommits(projectId: string, repositoryId: string, pullRequestId: number): Promise<any[]> {
+    return await this.getContinuedList(
+      `${projectId}/_apis/git/repositories/${repositoryId}/pullRequests/${pullRequestId}/commits`,
+    );
+  }
+
+  // Lists paged with an x-ms-continuationtoken header
+  private async getContinuedList(path: string): Promise<any[]> {
+    const separator = path.includes("?") ? "&" : "?";
+    let items: any[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const { data, headers }: { data: unknown, headers: Headers } = await this.request(continuationToken
+        ? `${path}${separator}continuationToken=${encodeURIComponent(continuationToken)}`
+        : path);
+      items = items.concat((data as { value: any[] }).value);
+      continuationToken = headers.get("x-ms-continuationtoken");
+    } while (continuationToken);
+
+    return items;
+  }
+
+  async getPullRequests(projectId: string): Promise<any[]> {
+    const path = `${projectId}/_apis/git/pullrequests?searchCriteria.status=all&$top=100`;
+    let allPullRequests: any[] = [];
+    let page: any[];
+
+    // Pull requests are paged with $skip only; a short page is the last one
+    do {
+      const { data } = await this.request(`${path}&$skip=${allPullRequests.length}`);
+      page = (data as { value: any[] }).value;
+      allPullRequests = allPullRequests.concat(page);
+    } while (page.length === 100);
+
+    return allPullRequests;
+  }
+
+  async getChangedWorkItemIds(projectId: string, email: string, fromDate: Date, toDate?: Date): Promise<number[]> {
+    const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+    const day = (date: Date) => quote(date.toISOString().substring(0, 10));
+
+    let query = "SELECT [System.Id] FROM WorkItems WHERE [System.TeamProject] = @project" +
+      ` AND [System.ChangedBy] EVER ${quote(email)} AND [System.ChangedDate] >= ${day(fromDate)}`;
+    if (toDate) {
+      // Work items created after the range cannot have changed within it; updates are filtered locally
+      const nextDay = new Date(toDate.getTime() + 24 * 60 * 60 * 1000);
+      query += ` AND [System.CreatedDate] < ${day(nextDay)}`;
+    }
+
+    const { data } = await this.request(`${projectId}/_apis/wit/wiql`, "POST", { query });
+    return (data as { workItems: { id: number }[] }).workItems.map(workItem => workItem.id);
+  }
+
+  async getWorkItemUpdates(projectId: string, workItemId: number): Promise<any[]> {
+    const { data } = await this.request(`${projectId}/_apis/wit/workItems/${workItemId}/updates`);
+    return (data as { value: any[] }).value;
+  }
+}
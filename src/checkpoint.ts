@@ -0,0 +1,146 @@
+import {exists} from "@std/fs";
+import {join} from "@std/path";
+import type {Activity, ActivityKind} from "./activities.ts";
+
+// Settings of the search a checkpoint belongs to; resuming a different search would miss activities
+export interface CheckpointSearch {
+  emails: string[];
+  activityKinds: ActivityKind[];
+  matchCommitter: boolean;
+  projects: string[];
+  repositories: string[];
+  branches: string[];
+  skipForks: boolean;
+}
+
+// Search step finished before the interruption, such as the commits of one repository
+interface CheckpointStep {
+  // Everything the step found, including activities already in the sync ledger
+  activities: (Omit<Activity, "date"> & { date: string })[];
+  // Branches of the repository, needed again to find commits of deleted branches
+  branches?: string[];
+}
+
+// Contents of the checkpoint file
+interface CheckpointFile {
+  version: 1;
+  organization: string;
+  updatedAt: string;
+  fromDate: string;
+  toDate?: string;
+  search: CheckpointSearch;
+  steps: Record<string, CheckpointStep>;
+}
+
+// Progress of a sync that has not finished yet, so an interrupted run can be resumed without
+// searching finished repositories again. Stored inside the .git directory next to the sync ledger,
+// one file per organization, as organizations can share a combined contributions repository.
+export class SyncCheckpoint {
+  private path: string;
+  private state: CheckpointFile | null = null;
+  // Saves are chained, so concurrent steps never write the file at the same time
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(repoPath: string, organization: string) {
+    this.path = join(repoPath, ".git", `csync-azd-checkpoint.${organization}.json`);
+  }
+
+  // Whether an interrupted sync left a checkpoint behind
+  get exists(): boolean {
+    return this.state !== null;
+  }
+
+  get updatedAt(): Date | null {
+    return this.state ? new Date(this.state.updatedAt) : null;
+  }
+
+  get completedSteps(): number {
+    return this.state ? Object.keys(this.state.steps).length : 0;
+  }
+
+  get dateRange(): { fromDate: Date; toDate?: Date } | null {
+    return this.state
+      ? { fromDate: new Date(this.state.fromDate), toDate: this.state.toDate ? new Date(this.state.toDate) : undefined }
+      : null;
+  }
+
+  async load(): Promise<void> {
+    this.state = null;
+    if (!(await exists(this.path))) {
+      return;
+    }
+
+    const state = JSON.parse(await Deno.readTextFile(this.path)) as CheckpointFile;
+    if (state.version !== 1) {
+      throw new Error(`Unsupported checkpoint version ${state.version}`);
+    }
+    this.state = state;
+  }
+
+  // Whether the checkpoint was left by a search with the same settings
+  matches(organization: string, search: CheckpointSearch): boolean {
+    return this.state?.organization === organization &&
+      JSON.stringify(this.state.search) === JSON.stringify(search);
+  }
+
+  // Starts a new checkpoint, or keeps the finished steps of the loaded one when resuming
+  async begin(organization: string, search: CheckpointSearch, fromDate: Date, toDate: Date | undefined, resume: boolean): Promise<void> {
+    this.state = {
+      version: 1,
+      organization,
+      updatedAt: new Date().toISOString(),
+      fromDate: fromDate.toISOString(),
+      toDate: toDate?.toISOString(),
+      search,
+      steps: resume ? this.state?.steps ?? {} : {},
+    };
+    await this.save();
+  }
+
+  // What a step found before the interruption, or undefined when it still has to run
+  getStep(key: string): { activities: Activity[]; branches?: string[] } | undefined {
+    const step = this.state?.steps[key];
+    if (!step) {
+      return undefined;
+    }
+
+    return {
+      activities: step.activities.map(activity => ({ ...activity, date: new Date(activity.date) })),
+      branches: step.branches,
+    };
+  }
+
+  async completeStep(key: string, activities: Activity[], branches?: string[]): Promise<void> {
+    if (!this.state) {
+      return;
+    }
+
+    this.state.steps[key] = {
+      activities: activities.map(activity => ({ ...activity, date: activity.date.toISOString() })),
+      branches,
+    };
+    await this.save();
+  }
+
+  // Removes the checkpoint once everything found was mirrored
+  async clear(): Promise<void> {
+    await this.saving.catch(() => {});
+    this.state = null;
+    if (await exists(this.path)) {
+      await Deno.remove(this.path);
+    }
+  }
+
+  // Writes to a temporary file first, so an interruption never leaves a truncated checkpoint
+  private save(): Promise<void> {
+    this.saving = this.saving.catch(() => {}).then(async () => {
+      if (!this.state) {
+        return;
+      }
+      this.state.updatedAt = new Date().toISOString();
+      await Deno.writeTextFile(`${this.path}.tmp`, JSON.stringify(this.state));
+      await Deno.rename(`${this.path}.tmp`, this.path);
+    });
+    return this.saving;
+  }
+}
@@ -0,0 +1,35 @@
+// Function to wait for the given number of milliseconds
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Function to run a task for every item, with at most `limit` tasks in flight at once.
+// Tasks are expected to handle their own errors.
+export async function runConcurrently<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+}
+
+// Function to create a limit shared by tasks started from several loops, e.g. requests for the items of
+// projects searched side by side, so no more than `limit` of them are in flight at once across all loops
+export function createLimiter(limit: number): <T>(task: () => Promise<T>) => Promise<T> {
+  const waiting: (() => void)[] = [];
+  let running = 0;
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    while (running >= Math.max(1, limit)) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    running++;
+    try {
+      return await task();
+    } finally {
+      running--;
+      waiting.shift()?.();
+    }
+  };
+}
@@ -0,0 +1,486 @@
+import * as colors from "@std/fmt/colors";
+import {ensureDir, exists} from "@std/fs";
+import {join} from "@std/path";
+import {ACTIVITY_KINDS, type ActivityKind} from "./activities.ts";
+import {CREDENTIAL_STORES, type CredentialRef} from "./credentials.ts";
+import {log} from "./logger.ts";
+import {NAME_VISIBILITIES, type PrivacySettings} from "./privacy.ts";
+import {validateTemplate} from "./templates.ts";
+import {validateTimeZone} from "./timezone.ts";
+import {type Weighting, WEIGHTINGS} from "./weighting.ts";
+
+// Settings saved per organization
+export interface Config {
+  organization: string;
+  credential?: CredentialRef;
+  // Plaintext token of config files written by older versions, migrated to the vault on first use
+  token?: string;
+  emails: string[];
+  // Also mirror commits where one of the emails is only the committer
+  matchCommitter?: boolean;
+  lookbackDays?: number;
+  // Include/exclude glob patterns; patterns starting with "!" exclude
+  projects?: string[];
+  repositories?: string[];
+  skipForks?: boolean;
+  // Branch patterns to search for commits; only the default branch when empty
+  branches?: string[];
+  concurrency?: number;
+  requestTimeoutSeconds?: number;
+  // Collection URL for Azure DevOps Server or legacy *.visualstudio.com organizations
+  baseUrl?: string;
+  apiVersion?: string;
+  caCertFile?: string;
+  proxy?: string;
+  activities?: ActivityKind[];
+  privacy?: PrivacySettings;
+  messageTemplate?: string;
+  contentTemplate?: string;
+  weighting?: Weighting;
+  dailyCap?: number;
+  // Size fake commits by the number of files the original commit changed
+  changeSize?: boolean;
+  // Time zone of the fake commits: an IANA name, a fixed offset, UTC or local; the original offsets without one
+  timeZone?: string;
+  // Remote the contributions repository is published to, e.g. on GitHub
+  remoteUrl?: string;
+  remoteBranch?: string;
+  push?: boolean;
+  // Identity of the fake commits; GitHub only counts commits whose email is verified on the account
+  commitName?: string;
+  commitEmail?: string;
+}
+
+// Default number of days to look back when no start date is given
+export const DEFAULT_LOOKBACK_DAYS = 366;
+
+// Default number of repositories searched at the same time
+export const DEFAULT_CONCURRENCY = 4;
+
+// Default time to wait for a single Azure DevOps API response
+export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 30;
+
+// REST API version requested unless configured otherwise; older servers negotiate it down
+export const DEFAULT_API_VERSION = "7.0";
+
+// Version of the config file layout. Files of older versions are migrated when read.
+export const CONFIG_VERSION = 1;
+
+// Environment variable overriding the directory the config file is kept in
+export const CONFIG_DIR_ENV = "CSYNC_AZD_CONFIG_DIR";
+
+// Contents of the config file: the settings of every saved organization, by organization name
+interface ConfigFile {
+  version: number;
+  organizations: Record<string, Omit<Config, "organization">>;
+}
+
+// Type of a setting, checked when the config file is read and when a setting is changed
+interface SettingSchema {
+  type: "string" | "boolean" | "integer" | "number" | "strings" | "credential";
+  // Allowed values of a string, or of each string in a list
+  values?: readonly string[];
+  // Further checks of a value of the right type
+  validate?: (value: any) => true | string;
+  required?: boolean;
+  // Changed by syncing rather than by hand, as they point at secrets
+  readOnly?: boolean;
+}
+
+// Function to require a number of at least the given minimum
+function atLeast(minimum: number): (value: number) => true | string {
+  return (value) => value >= minimum ? true : `must be at least ${minimum}`;
+}
+
+// Function to require a list of valid regular expressions
+function validateRegExps(patterns: string[]): true | string {
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return `"${pattern}" is not a valid regular expression`;
+    }
+  }
+  return true;
+}
+
+// Settings of an organization by name; privacy settings are nested, e.g. privacy.names
+const SETTINGS: Record<string, SettingSchema> = {
+  "credential": { type: "credential", readOnly: true },
+  "token": { type: "string", readOnly: true },
+  "emails": { type: "strings", required: true, validate: (emails: string[]) => emails.length > 0 ? true : "must not be empty" },
+  "matchCommitter": { type: "boolean" },
+  "lookbackDays": { type: "integer", validate: atLeast(0) },
+  "projects": { type: "strings" },
+  "repositories": { type: "strings" },
+  "skipForks": { type: "boolean" },
+  "branches": { type: "strings" },
+  "concurrency": { type: "integer", validate: atLeast(1) },
+  "requestTimeoutSeconds": { type: "number", validate: atLeast(1) },
+  "baseUrl": { type: "string", validate: (url: string) => URL.canParse(url) ? true : "must be a URL" },
+  "apiVersion": { type: "string" },
+  "caCertFile": { type: "string" },
+  "proxy": { type: "string", validate: (url: string) => URL.canParse(url) ? true : "must be a URL" },
+  "activities": { type: "strings", values: ACTIVITY_KINDS },
+  "privacy.names": { type: "string", values: NAME_VISIBILITIES },
+  "privacy.includeMessages": { type: "boolean" },
+  "privacy.includeAuthors": { type: "boolean" },
+  "privacy.redact": { type: "strings", validate: validateRegExps },
+  "messageTemplate": { type: "string", validate: validateTemplate },
+  "contentTemplate": { type: "string", validate: validateTemplate },
+  "weighting": { type: "string", values: WEIGHTINGS },
+  "dailyCap": { type: "integer", validate: atLeast(1) },
+  "changeSize": { type: "boolean" },
+  "timeZone": { type: "string", validate: validateTimeZone },
+  "remoteUrl": { type: "string" },
+  "remoteBranch": { type: "string" },
+  "push": { type: "boolean" },
+  "commitName": { type: "string" },
+  "commitEmail": { type: "string" },
+};
+
+// Names of all settings, for help texts and error messages
+export const SETTING_NAMES = Object.keys(SETTINGS);
+
+// Function to check a credential reference
+function validateCredential(value: any): true | string {
+  if (typeof value !== "object" || value === null || !CREDENTIAL_STORES.includes(value.store)) {
+    return `must be an object with a store of ${CREDENTIAL_STORES.join(", ")}`;
+  }
+  const field = { vault: "key", env: "variable", file: "path", none: undefined }[value.store as CredentialRef["store"]];
+  return !field || typeof value[field] === "string" ? true : `of the ${value.store} store must have a ${field}`;
+}
+
+// Function to check the value of a setting, returning why it is invalid otherwise
+function validateSetting(name: string, value: unknown): true | string {
+  const schema = SETTINGS[name];
+  if (!schema) {
+    return `${name} is not a known setting`;
+  }
+
+  let valid: true | string = true;
+  switch (schema.type) {
+    case "string":
+    case "boolean":
+    case "number":
+      valid = typeof value === schema.type && (schema.type !== "number" || Number.isFinite(value))
+        ? true
+        : `must be a ${schema.type}`;
+      break;
+    case "integer":
+      valid = Number.isInteger(value) ? true : "must be a whole number";
+      break;
+    case "strings":
+      valid = Array.isArray(value) && value.every(item => typeof item === "string") ? true : "must be a list of strings";
+      break;
+    case "credential":
+      valid = validateCredential(value);
+      break;
+  }
+
+  const values = Array.isArray(value) ? value : [value];
+  const unknown = schema.values && values.find(item => !schema.values!.includes(item));
+  if (valid === true && unknown !== undefined) {
+    valid = `must be ${schema.type === "strings" ? "a list of" : "one of"} ${schema.values!.join(", ")}, not "${unknown}"`;
+  }
+  if (valid === true && schema.validate) {
+    valid = schema.validate(value);
+  }
+  return valid === true ? true : `${name} ${valid}`;
+}
+
+// Function to flatten the settings of an organization into setting names and values, e.g. privacy.names
+function flattenSettings(settings: Record<string, unknown>): [string, unknown][] {
+  return Object.entries(settings).flatMap(([name, value]): [string, unknown][] =>
+    name === "privacy" && typeof value === "object" && value !== null && !Array.isArray(value)
+      ? Object.entries(value).map(([key, nested]) => [`privacy.${key}`, nested])
+      : [[name, value]]
+  );
+}
+
+// Function to check settings given on the command line, with the message "config set" gives for the first invalid one
+export function checkSettings(config: Config): true | string {
+  const { organization: _organization, ...values } = config;
+  for (const [name, value] of flattenSettings(values)) {
+    const valid = value === undefined || validateSetting(name, value);
+    if (valid !== true) {
+      return `Invalid value "${Array.isArray(value) ? value.join(", ") : value}": ${valid}`;
+    }
+  }
+  return true;
+}
+
+// Function to check the settings of an organization, throwing an error that lists everything wrong with them
+function validateConfig(organization: string, settings: unknown, source: string): Config {
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+    throw new Error(`Invalid settings of ${organization} in ${source}: expected an object`);
+  }
+
+  const { organization: _organization, ...values } = settings as Record<string, unknown>;
+  const problems = flattenSettings(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => validateSetting(name, value))
+    .filter((valid): valid is string => valid !== true);
+  for (const [name, schema] of Object.entries(SETTINGS)) {
+    if (schema.required && values[name] === undefined) {
+      problems.push(`${name} is required`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid settings of ${organization} in ${source}:\n  - ${problems.join("\n  - ")}`);
+  }
+  return { ...values, organization } as Config;
+}
+
+// Function to get the directory the config file is kept in, following the conventions of each platform
+export function getConfigDir(): string {
+  const override = Deno.env.get(CONFIG_DIR_ENV);
+  if (override) {
+    return override;
+  }
+
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? Deno.cwd();
+  switch (Deno.build.os) {
+    case "windows":
+      return join(Deno.env.get("APPDATA") ?? join(home, "AppData", "Roaming"), "csync-azd");
+    case "darwin":
+      return join(home, "Library", "Application Support", "csync-azd");
+    default:
+      return join(Deno.env.get("XDG_CONFIG_HOME") ?? join(home, ".config"), "csync-azd");
+  }
+}
+
+// Function to get the path of the config file holding the settings of all organizations
+export function getConfigFilePath(): string {
+  return join(getConfigDir(), "config.json");
+}
+
+// Function to bring a config file of an older version up to date. Version 1 is the first versioned layout,
+// so there is nothing to migrate yet; later versions add their steps here.
+function migrateConfigFile(content: any, path: string): ConfigFile {
+  if (typeof content !== "object" || content === null || !Number.isInteger(content.version)) {
+    throw new Error(`Invalid config file ${path}: missing a version`);
+  }
+  if (content.version > CONFIG_VERSION) {
+    throw new Error(
+      `The config file ${path} is of version ${content.version}, written by a newer csync-azd. Update csync-azd to use it.`,
+    );
+  }
+  if (typeof content.organizations !== "object" || content.organizations === null) {
+    throw new Error(`Invalid config file ${path}: missing the organizations`);
+  }
+  return { ...content, version: CONFIG_VERSION };
+}
+
+// Function to check whether a file has the shape of the config files older versions wrote,
+// with at least the organization and its email addresses
+function isLegacyConfig(content: unknown): content is Config {
+  const config = content as Partial<Config> | null;
+  return typeof config?.organization === "string" && config.organization !== "" && Array.isArray(config.emails);
+}
+
+// Function to move the <organization>.config.json and config.json files older versions wrote to the
+// current directory into the config file. Moved files are renamed without their token, so they are not
+// moved again and no plaintext copy of the token is left behind.
+async function migrateLegacyConfigs(file: ConfigFile): Promise<boolean> {
+  const legacyFiles: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(Deno.cwd())) {
+      const path = join(Deno.cwd(), entry.name);
+      if (entry.isFile && (entry.name.endsWith(".config.json") || entry.name === "config.json") && path !== getConfigFilePath()) {
+        legacyFiles.push(path);
+      }
+    }
+  } catch {
+    return false;
+  }
+
+  let migrated = false;
+  for (const path of legacyFiles.sort()) {
+    // Other files that happen to share the name are left alone
+    let content: unknown;
+    try {
+      content = JSON.parse(await Deno.readTextFile(path));
+    } catch {
+      continue;
+    }
+    if (!isLegacyConfig(content)) {
+      continue;
+    }
+
+    const organization = content.organization;
+    try {
+      if (file.organizations[organization]) {
+        log.warn(colors.yellow(`Warning: Ignoring ${path}, as settings of ${organization} are already saved`));
+      } else {
+        const { organization: _organization, ...settings } = validateConfig(organization, content, path);
+        file.organizations[organization] = settings;
+        migrated = true;
+        log.info(colors.yellow(`Moved the settings of ${organization} from ${path} to ${getConfigFilePath()}`));
+      }
+      const { token: _token, ...withoutToken } = content;
+      await Deno.writeTextFile(`${path}.migrated`, JSON.stringify(withoutToken, null, 2), { mode: 0o600 });
+      await Deno.remove(path);
+    } catch (error: any) {
+      log.warn(colors.yellow(`Warning: Failed to migrate config file ${path}: ${error.message}`));
+    }
+  }
+  return migrated;
+}
+
+// Function to read the config file, migrating older files. A missing file has no organizations.
+async function loadConfigFile(): Promise<ConfigFile> {
+  const path = getConfigFilePath();
+  let file: ConfigFile = { version: CONFIG_VERSION, organizations: {} };
+
+  if (await exists(path)) {
+    let content: unknown;
+    try {
+      content = JSON.parse(await Deno.readTextFile(path));
+    } catch (error: any) {
+      throw new Error(`Failed to read config file ${path}: ${error.message}`);
+    }
+    const original = (content as ConfigFile | null)?.version;
+    file = migrateConfigFile(content, path);
+    for (const [organization, settings] of Object.entries(file.organizations)) {
+      validateConfig(organization, settings, path);
+    }
+    if (original !== CONFIG_VERSION) {
+      await saveConfigFile(file);
+    }
+  }
+
+  if (await migrateLegacyConfigs(file)) {
+    await saveConfigFile(file);
+  }
+  return file;
+}
+
+// Function to write the config file through a temporary file, so it is never left half written.
+// It is only readable by the user, as older configurations may still hold a plaintext token.
+async function saveConfigFile(file: ConfigFile): Promise<void> {
+  const path = getConfigFilePath();
+  await ensureDir(getConfigDir());
+  await Deno.writeTextFile(`${path}.tmp`, JSON.stringify(file, null, 2), { mode: 0o600 });
+  await Deno.rename(`${path}.tmp`, path);
+}
+
+// Function to read the configuration of an organization, or null if none is saved
+export async function readConfig(organization: string): Promise<Config | null> {
+  const file = await loadConfigFile();
+  const settings = file.organizations[organization];
+  return settings ? { ...settings, organization } : null;
+}
+
+// Function to write the configuration of an organization. Invalid settings are rejected, so they never reach the file.
+export async function writeConfig(config: Config): Promise<void> {
+  const valid = checkSettings(config);
+  if (valid !== true) {
+    throw new Error(valid);
+  }
+
+  try {
+    const file = await loadConfigFile();
+    const { organization: _organization, ...settings } = validateConfig(config.organization, config, "the new settings");
+    file.organizations[config.organization] = settings;
+    await saveConfigFile(file);
+  } catch (error: any) {
+    log.warn(colors.yellow(`Warning: Failed to write config file: ${error.message}`));
+  }
+}
+
+// Function to remove the configuration of an organization, returning whether one was saved
+export async function removeConfig(organization: string): Promise<boolean> {
+  const file = await loadConfigFile();
+  if (!file.organizations[organization]) {
+    return false;
+  }
+  delete file.organizations[organization];
+  await saveConfigFile(file);
+  return true;
+}
+
+// Function to parse a setting given on the command line: lists are comma-separated like the options
+function parseSetting(name: string, text: string): unknown {
+  switch (SETTINGS[name].type) {
+    case "boolean":
+      return text === "true" ? true : text === "false" ? false : text;
+    case "integer":
+    case "number":
+      return text.trim() !== "" && !isNaN(Number(text)) ? Number(text) : text;
+    case "strings":
+      return text.split(",").map(item => item.trim()).filter(item => item);
+    default:
+      return text;
+  }
+}
+
+// Function to change a single setting of a saved organization, e.g. weighting or privacy.names
+export async function setConfigValue(organization: string, name: string, text: string): Promise<Config> {
+  const schema = SETTINGS[name];
+  if (!schema) {
+    throw new Error(`${name} is not a known setting. Known settings: ${SETTING_NAMES.join(", ")}`);
+  }
+  if (schema.readOnly) {
+    throw new Error(`${name} cannot be set by hand. Sync with --token-store instead.`);
+  }
+
+  const file = await loadConfigFile();
+  const settings = file.organizations[organization];
+  if (!settings) {
+    throw new Error(`No settings saved for ${organization}. Sync it once to save them.`);
+  }
+
+  const value = parseSetting(name, text);
+  const valid = validateSetting(name, value);
+  if (valid !== true) {
+    throw new Error(`Invalid value "${text}": ${valid}`);
+  }
+
+  const [group, key] = name.split(".");
+  const updated: Record<string, any> = { ...settings };
+  updated[group] = key ? { ...updated[group], [key]: value } : value;
+  file.organizations[organization] = updated as ConfigFile["organizations"][string];
+  await saveConfigFile(file);
+  return { ...file.organizations[organization], organization };
+}
+
+// Function to remove a single setting of a saved organization, so its default applies again
+export async function unsetConfigValue(organization: string, name: string): Promise<Config> {
+  const schema = SETTINGS[name];
+  if (!schema) {
+    throw new Error(`${name} is not a known setting. Known settings: ${SETTING_NAMES.join(", ")}`);
+  }
+  if (schema.required) {
+    throw new Error(`${name} is required and cannot be removed. Use "config set" to change it.`);
+  }
+
+  const file = await loadConfigFile();
+  const settings = file.organizations[organization];
+  if (!settings) {
+    throw new Error(`No settings saved for ${organization}.`);
+  }
+
+  const [group, key] = name.split(".");
+  const updated: Record<string, any> = { ...settings };
+  if (key) {
+    const { [key]: _removed, ...rest } = updated[group] ?? {};
+    updated[group] = Object.keys(rest).length > 0 ? rest : undefined;
+  } else {
+    delete updated[group];
+  }
+  file.organizations[organization] = JSON.parse(JSON.stringify(updated));
+  await saveConfigFile(file);
+  return { ...file.organizations[organization], organization };
+}
+
+// Function to list the organizations with saved settings
+export async function listAvailableOrganizations(): Promise<string[]> {
+  try {
+    return Object.keys((await loadConfigFile()).organizations).sort();
+  } catch (error: any) {
+    log.warn(colors.yellow(`Warning: Failed to list organizations: ${error.message}`));
+    return [];
+  }
+}
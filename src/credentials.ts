@@ -0,0 +1,194 @@
+import * as colors from "@std/fmt/colors";
+import {ensureDir, exists} from "@std/fs";
+import {dirname, join} from "@std/path";
+import {getConfigDir} from "./config.ts";
+import {log} from "./logger.ts";
+
+// Backends a Personal Access Token can be kept in
+export const CREDENTIAL_STORES = ["vault", "env", "file", "none"] as const;
+export type CredentialStore = typeof CREDENTIAL_STORES[number];
+
+// Reference to where the Personal Access Token of an organization is kept.
+// The config file only ever holds this reference, never the token itself.
+export type CredentialRef =
+  | { store: "vault"; key: string }
+  | { store: "env"; variable: string }
+  | { store: "file"; path: string }
+  | { store: "none" };
+
+// File name of the encrypted credential vault
+const VAULT_FILE_NAME = "csync-azd.vault.json";
+
+// Function to get the path of the encrypted credential vault, next to the config file
+export function getVaultFilePath(): string {
+  return join(getConfigDir(), VAULT_FILE_NAME);
+}
+
+// Function to move the vault older versions kept in the current directory next to the config file.
+// The old file is removed once the copy is confirmed; a vault that already exists there is kept.
+export async function migrateLegacyVault(): Promise<void> {
+  const legacyPath = join(Deno.cwd(), VAULT_FILE_NAME);
+  const path = getVaultFilePath();
+  if (legacyPath === path || !(await exists(legacyPath))) {
+    return;
+  }
+
+  try {
+    if (await exists(path)) {
+      log.warn(colors.yellow(`Warning: Ignoring ${legacyPath}, as a credential vault already exists at ${path}`));
+      return;
+    }
+    await ensureDir(getConfigDir());
+    const content = await Deno.readTextFile(legacyPath);
+    await Deno.writeTextFile(path, content, { mode: 0o600 });
+    if (await Deno.readTextFile(path) !== content) {
+      throw new Error(`the copy at ${path} does not match`);
+    }
+    await Deno.remove(legacyPath);
+    log.info(colors.yellow(`Moved the credential vault from ${legacyPath} to ${path}`));
+  } catch (error: any) {
+    log.warn(colors.yellow(`Warning: Failed to move the credential vault ${legacyPath}: ${error.message}`));
+  }
+}
+
+// Contents of the credential vault file
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: EncryptedValue;
+  entries: Record<string, EncryptedValue>;
+}
+
+interface EncryptedValue {
+  iv: string;
+  data: string;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+// Encrypted local store for Personal Access Tokens, unlocked by a passphrase.
+// Tokens are encrypted with AES-GCM using a key derived from the passphrase with PBKDF2.
+export class CredentialVault {
+  private static readonly CHECK_VALUE = "csync-azd";
+  private static readonly ITERATIONS = 600_000;
+
+  private path: string;
+  private getPassphrase: (create: boolean) => Promise<string>;
+  private key: CryptoKey | null = null;
+
+  constructor(path: string, getPassphrase: (create: boolean) => Promise<string>) {
+    this.path = path;
+    this.getPassphrase = getPassphrase;
+  }
+
+  async get(name: string): Promise<string | null> {
+    const vault = await this.readVault();
+    const entry = vault?.entries[name];
+    if (!vault || !entry) {
+      return null;
+    }
+
+    const key = await this.unlock(vault);
+    return await this.decrypt(key, entry);
+  }
+
+  async set(name: string, token: string): Promise<void> {
+    let vault = await this.readVault();
+
+    if (!vault) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      this.key = await this.deriveKey(await this.getPassphrase(true), salt, CredentialVault.ITERATIONS);
+      vault = {
+        version: 1,
+        salt: toBase64(salt),
+        iterations: CredentialVault.ITERATIONS,
+        check: await this.encrypt(this.key, CredentialVault.CHECK_VALUE),
+        entries: {},
+      };
+    }
+
+    const key = await this.unlock(vault);
+    vault.entries[name] = await this.encrypt(key, token);
+    await ensureDir(dirname(this.path));
+    await Deno.writeTextFile(this.path, JSON.stringify(vault, null, 2), { mode: 0o600 });
+  }
+
+  private async readVault(): Promise<VaultFile | null> {
+    if (!(await exists(this.path))) {
+      return null;
+    }
+    return JSON.parse(await Deno.readTextFile(this.path)) as VaultFile;
+  }
+
+  private async unlock(vault: VaultFile): Promise<CryptoKey> {
+    if (this.key) {
+      return this.key;
+    }
+
+    const passphrase = await this.getPassphrase(false);
+    const key = await this.deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+
+    try {
+      await this.decrypt(key, vault.check);
+    } catch {
+      throw new Error("Wrong passphrase for the credential vault");
+    }
+
+    this.key = key;
+    return key;
+  }
+
+  private async deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveKey"],
+    );
+
+    return await crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+      material,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+
+  private async encrypt(key: CryptoKey, value: string): Promise<EncryptedValue> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(value));
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  }
+
+  private async decrypt(key: CryptoKey, value: EncryptedValue): Promise<string> {
+    const data = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+    return new TextDecoder().decode(data);
+  }
+}
+
+// Function to resolve a credential reference to the token it points to
+export async function resolveCredential(credential: CredentialRef, vault: CredentialVault): Promise<string | null> {
+  switch (credential.store) {
+    case "vault":
+      return await vault.get(credential.key);
+    case "env":
+      return Deno.env.get(credential.variable) || null;
+    case "file":
+      return (await Deno.readTextFile(credential.path)).trim() || null;
+    case "none":
+      return null;
+  }
+}
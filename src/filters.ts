@@ -0,0 +1,37 @@
+import {globToRegExp} from "@std/path";
+
+// Compiled include or exclude glob pattern
+export interface NamePattern {
+  regExp: RegExp;
+  exclude: boolean;
+  // Patterns containing a slash match "<project>/<repository>" instead of the bare name
+  qualified: boolean;
+}
+
+// Function to compile glob patterns such as "Platform/*" or "!*-sandbox"
+export function parsePatterns(patterns: string[]): NamePattern[] {
+  return patterns
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern && pattern !== "!")
+    .map(pattern => {
+      const exclude = pattern.startsWith("!");
+      const glob = exclude ? pattern.slice(1) : pattern;
+      return {
+        regExp: globToRegExp(glob, { caseInsensitive: true }),
+        exclude,
+        qualified: glob.includes("/"),
+      };
+    });
+}
+
+// Function to check a name against patterns. A name matches if it matches any include
+// pattern (or there are none) and no exclude pattern.
+export function matchesPatterns(patterns: NamePattern[], name: string, qualifiedName = name): boolean {
+  const test = (pattern: NamePattern) => pattern.regExp.test(pattern.qualified ? qualifiedName : name);
+  const includes = patterns.filter(pattern => !pattern.exclude);
+
+  if (includes.length > 0 && !includes.some(test)) {
+    return false;
+  }
+  return !patterns.some(pattern => pattern.exclude && test(pattern));
+}
@@ -0,0 +1,395 @@
+import {ensureDir, exists} from "@std/fs";
+import {join} from "@std/path";
+import {formatUtcOffset, parseUtcOffset, type ZonedDate} from "./timezone.ts";
+
+// Fake commit waiting to be written to the contributions repository
+export interface PendingCommit {
+  date: Date;
+  // Offset the author and committer dates are written in, in minutes east of UTC; UTC without one
+  utcOffset?: number;
+  message: string;
+  content: string;
+}
+
+// Fake commit of the contributions repository and the Azure DevOps activities it mirrors
+export interface MirroredCommit {
+  sha: string;
+  date: Date;
+  message: string;
+  // IDs from its "Original commit" and "Original activity" lines, as recorded in the sync ledger
+  ids: string[];
+}
+
+// Author and committer of fake commits; unset parts fall back to the git configuration
+interface GitIdentity {
+  name?: string;
+  email?: string;
+}
+
+// Git operations
+export class GitOperations {
+  private repoPath: string;
+  private filename: string;
+  private identity: GitIdentity;
+
+  constructor(repoPath: string, organization: string, identity: GitIdentity = {}) {
+    this.repoPath = repoPath;
+    this.filename = "foo.txt";
+    this.identity = identity;
+  }
+
+  async initRepo(): Promise<void> {
+    await ensureDir(this.repoPath);
+
+    if (!(await exists(join(this.repoPath, ".git")))) {
+      const cmd = new Deno.Command('git', {
+        args: ["init"],
+        stdout: "piped",
+        cwd: this.repoPath
+      });
+
+      const { success, stderr  } = await cmd.output();
+
+      if (!success) {
+        const stderrString = new TextDecoder().decode(stderr);
+        throw new Error(`Failed to initialize git repository: ${stderrString}`);
+      }
+    }
+  }
+
+  async createCommit(date: Date, message: string, content: string): Promise<void> {
+    await this.writeCommits([{ date, message, content }]);
+  }
+
+  // Streams all commits into a single `git fast-import` process on top of the current branch.
+  // fast-import only moves the branch once the whole stream was imported, so a failure
+  // partway through leaves the repository untouched.
+  async writeCommits(commits: PendingCommit[], onProgress?: (written: number) => void): Promise<void> {
+    if (commits.length === 0) {
+      return;
+    }
+
+    const branch = await this.runGit(["symbolic-ref", "-q", "HEAD"]);
+    if (!branch.success) {
+      throw new Error("Failed to write commits: HEAD is not on a branch");
+    }
+    const parent = await this.runGit(["rev-parse", "--verify", "-q", "HEAD"]);
+
+    // Fake commits are committed when the original was authored, so both dates land on the same day
+    const author = (await this.getIdent("GIT_AUTHOR_IDENT")).replace(/ \d+ [+-]\d{4}$/, "");
+    const committer = (await this.getIdent("GIT_COMMITTER_IDENT")).replace(/ \d+ [+-]\d{4}$/, "");
+
+    const child = new Deno.Command('git', {
+      args: ["fast-import", "--quiet", "--done"],
+      cwd: this.repoPath,
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+
+    const stderrText = new Response(child.stderr).text();
+
+    // fast-import echoes a line for every "progress" command, one per written commit
+    const progressDone = (async () => {
+      let written = 0;
+      for await (const chunk of child.stdout.pipeThrough(new TextDecoderStream())) {
+        written += chunk.split("\n").length - 1;
+        onProgress?.(written);
+      }
+    })();
+
+    const encoder = new TextEncoder();
+    const data = (value: string) => `data ${encoder.encode(value).length}\n${value}\n`;
+    const writer = child.stdin.getWriter();
+
+    try {
+      for (let i = 0; i < commits.length; i++) {
+        const { date, message, content } = commits[i];
+        const when = `${Math.floor(date.getTime() / 1000)} ${formatUtcOffset(commits[i].utcOffset ?? 0)}`;
+
+        let command = `commit ${branch.stdout.trim()}\n`;
+        command += `author ${author} ${when}\n`;
+        command += `committer ${committer} ${when}\n`;
+        command += data(`${message}\n`);
+        if (i === 0 && parent.success) {
+          command += `from ${parent.stdout.trim()}\n`;
+        }
+        command += `M 100644 inline ${this.filename}\n`;
+        command += data(content);
+        command += `progress ${i + 1}\n\n`;
+
+        await writer.write(encoder.encode(command));
+      }
+
+      await writer.write(encoder.encode("done\n"));
+      await writer.close();
+    } catch {
+      // fast-import exited early; its error output explains why
+    }
+
+    const { success } = await child.status;
+    await progressDone;
+    if (!success) {
+      throw new Error(`Failed to write commits: ${await stderrText}`);
+    }
+
+    // Bring the index and working tree up to date with the imported commits
+    const reset = await this.runGit(["reset", "--hard", "--quiet"]);
+    if (!reset.success) {
+      throw new Error(`Failed to update working tree: ${reset.stderr}`);
+    }
+  }
+
+  async setRemote(url: string, name = "origin"): Promise<void> {
+    const current = await this.runGit(["remote", "get-url", name]);
+    if (current.success && current.stdout.trim() === url) {
+      return;
+    }
+
+    const result = await this.runGit(["remote", current.success ? "set-url" : "add", name, url]);
+    if (!result.success) {
+      throw new Error(`Failed to configure remote ${name}: ${result.stderr}`);
+    }
+  }
+
+  async getCurrentBranch(): Promise<string> {
+    const result = await this.runGit(["symbolic-ref", "--short", "HEAD"]);
+    if (!result.success) {
+      throw new Error(`Failed to determine the current branch: ${result.stderr}`);
+    }
+    return result.stdout.trim();
+  }
+
+  // Pushes HEAD to the branch of the remote and returns git's report of what was (or would be) updated
+  async push(branch: string, dryRun: boolean, interactive: boolean, name = "origin"): Promise<string> {
+    const args = ["push", "--porcelain", ...(dryRun ? ["--dry-run"] : []), name, `HEAD:refs/heads/${branch}`];
+    // Without a terminal, fail instead of waiting for credentials nobody can enter
+    const env: Record<string, string> = interactive ? {} : { GIT_TERMINAL_PROMPT: "0" };
+
+    const result = await this.runGit(args, env);
+    if (!result.success) {
+      throw new Error(`Failed to push to ${name}: ${result.stderr || result.stdout}`);
+    }
+    return result.stdout.trim();
+  }
+
+  // Identity line for fake commits, like `git var` prints it, with configured name and email applied.
+  // Fails like `git commit` would when no identity is configured at all.
+  private async getIdent(variable: "GIT_AUTHOR_IDENT" | "GIT_COMMITTER_IDENT"): Promise<string> {
+    if (this.identity.email) {
+      const configuredName = (await this.runGit(["config", "user.name"])).stdout.trim();
+      const name = this.identity.name ?? (configuredName || this.identity.email.split("@")[0]);
+      return `${name} <${this.identity.email}> ${Math.floor(Date.now() / 1000)} +0000`;
+    }
+
+    const result = await this.runGit(["var", variable]);
+    const match = result.stdout.trim().match(/^(.*) <(.*)> (\d+ [+-]\d{4})$/);
+    if (!result.success || !match) {
+      throw new Error(`Failed to determine git identity: ${result.stderr}`);
+    }
+
+    const [, name, email, date] = match;
+    return `${this.identity.name ?? name} <${this.identity.email ?? email}> ${date}`;
+  }
+
+  private async runGit(args: string[], env?: Record<string, string>, input?: string): Promise<{ success: boolean, stdout: string, stderr: string }> {
+    const child = new Deno.Command('git', {
+      args,
+      cwd: this.repoPath,
+      env,
+      stdin: input === undefined ? "null" : "piped",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+
+    if (input !== undefined) {
+      const writer = child.stdin.getWriter();
+      await writer.write(new TextEncoder().encode(input));
+      await writer.close();
+    }
+
+    const { success, stdout, stderr } = await child.output();
+    const decoder = new TextDecoder();
+    return { success, stdout: decoder.decode(stdout), stderr: decoder.decode(stderr) };
+  }
+
+  async getMirroredCommitIds(): Promise<string[]> {
+    if (!(await exists(join(this.repoPath, this.filename)))) {
+      return [];
+    }
+
+    // Every fake commit rewrites the file with an "Original commit: <id>" or "Original activity: <id>" line
+    const logCmd = new Deno.Command('git', {
+      args: ["log", "-p", "--no-color", "--format=", "--", this.filename],
+      cwd: this.repoPath,
+      stdout: "piped",
+      stderr: "piped",
+    });
+
+    const { success, stdout, stderr } = await logCmd.output();
+    if (!success) {
+      const stderrString = new TextDecoder().decode(stderr);
+      throw new Error(`Failed to read git history: ${stderrString}`);
+    }
+
+    const output = new TextDecoder().decode(stdout);
+    const matches = output.matchAll(/^\+Original (?:commit: ([0-9a-f]{40})|activity: (\S+))$/gm);
+    return [...new Set(Array.from(matches, match => match[1] ?? match[2]))];
+  }
+
+  // Fake commits of the current branch, oldest first
+  async getMirroredCommits(): Promise<MirroredCommit[]> {
+    if (!(await exists(join(this.repoPath, this.filename)))) {
+      return [];
+    }
+
+    // Each commit starts with a NUL, followed by its header line and the patch of the file
+    const result = await this.runGit([
+      "log", "--reverse", "--first-parent", "-p", "--no-color", "--format=%x00%H %aI %s", "--", this.filename,
+    ]);
+    if (!result.success) {
+      throw new Error(`Failed to read git history: ${result.stderr}`);
+    }
+
+    return result.stdout.split("\0").filter(record => record.trim()).map(record => {
+      const [header] = record.split("\n", 1);
+      const [sha, date] = header.split(" ", 2);
+      const matches = record.matchAll(/^\+Original (?:commit: ([0-9a-f]{40})|activity: (\S+))$/gm);
+      return {
+        sha,
+        date: new Date(date),
+        message: header.substring(sha.length + date.length + 2),
+        ids: [...new Set(Array.from(matches, match => match[1] ?? match[2]))],
+      };
+    });
+  }
+
+  // Rebuilds the current branch without the given commits. Every other commit keeps its tree, message,
+  // author and committer, so dates and order are unchanged; only the parents of the later commits change.
+  // The previous history is kept under refs/csync-azd/before-reconcile until the next rewrite.
+  async removeCommits(shas: Set<string>): Promise<void> {
+    const head = await this.runGit(["rev-parse", "--verify", "-q", "HEAD"]);
+    if (!head.success || shas.size === 0) {
+      return;
+    }
+
+    const list = await this.runGit(["rev-list", "--reverse", "--first-parent", "HEAD"]);
+    if (!list.success) {
+      throw new Error(`Failed to read git history: ${list.stderr}`);
+    }
+    const history = list.stdout.split("\n").filter(sha => sha);
+    const firstRemoved = history.findIndex(sha => shas.has(sha));
+    if (firstRemoved === -1) {
+      return;
+    }
+
+    // Commits before the first removed one stay as they are
+    let parent: string | undefined = history[firstRemoved - 1];
+    for (const sha of history.slice(firstRemoved + 1)) {
+      if (shas.has(sha)) {
+        continue;
+      }
+
+      const object = await this.runGit(["cat-file", "commit", sha]);
+      if (!object.success) {
+        throw new Error(`Failed to read commit ${sha}: ${object.stderr}`);
+      }
+
+      // Replace the first parent and drop signatures, which no longer match; merged parents are kept
+      const separator = object.stdout.indexOf("\n\n");
+      const headers = object.stdout.substring(0, separator).split("\n");
+      const rewritten: string[] = [];
+      let firstParent = true;
+      let inSignature = false;
+      for (const line of headers) {
+        if (inSignature && line.startsWith(" ")) {
+          continue;
+        }
+        inSignature = line.startsWith("gpgsig");
+        if (inSignature) {
+          continue;
+        }
+        if (line.startsWith("parent ") && firstParent) {
+          firstParent = false;
+          if (parent) {
+            rewritten.push(`parent ${parent}`);
+          }
+          continue;
+        }
+        if (line.startsWith("author ") && firstParent) {
+          // Root commits have no parent line to replace
+          firstParent = false;
+          if (parent) {
+            rewritten.push(`parent ${parent}`);
+          }
+        }
+        rewritten.push(line);
+      }
+
+      const written = await this.runGit(
+        ["hash-object", "-t", "commit", "-w", "--stdin"],
+        undefined,
+        rewritten.join("\n") + object.stdout.substring(separator),
+      );
+      if (!written.success) {
+        throw new Error(`Failed to rewrite commit ${sha}: ${written.stderr}`);
+      }
+      parent = written.stdout.trim();
+    }
+
+    const oldHead = head.stdout.trim();
+    const backup = await this.runGit(["update-ref", "refs/csync-azd/before-reconcile", oldHead]);
+    if (!backup.success) {
+      throw new Error(`Failed to keep the previous history: ${backup.stderr}`);
+    }
+
+    // Without any commit left the branch is removed, as git has no empty branches
+    const update = parent
+      ? await this.runGit(["update-ref", "-m", "csync-azd: reconcile", "HEAD", parent, oldHead])
+      : await this.runGit(["update-ref", "-d", "HEAD", oldHead]);
+    if (!update.success) {
+      throw new Error(`Failed to update the branch: ${update.stderr}`);
+    }
+
+    const reset = parent
+      ? await this.runGit(["reset", "--hard", "--quiet"])
+      : await this.runGit(["rm", "-r", "-q", "--cached", "--ignore-unmatch", "."]);
+    if (!reset.success) {
+      throw new Error(`Failed to update working tree: ${reset.stderr}`);
+    }
+    if (!parent) {
+      await Deno.remove(join(this.repoPath, this.filename)).catch(() => {});
+    }
+  }
+
+  // Author dates of all fake commits and their offsets, the dates GitHub shows them on
+  async getCommitDates(): Promise<ZonedDate[]> {
+    if (!(await exists(join(this.repoPath, this.filename)))) {
+      return [];
+    }
+
+    const result = await this.runGit(["log", "--format=%aI", "--", this.filename]);
+    if (!result.success) {
+      throw new Error(`Failed to read git history: ${result.stderr}`);
+    }
+
+    return result.stdout.split("\n").filter(line => line.trim()).map(line => ({
+      date: new Date(line.trim()),
+      utcOffset: parseUtcOffset(line),
+    }));
+  }
+
+  // Latest author date of the fake commits. Commits are not always written in date order,
+  // and their offsets differ, so the dates are compared as points in time.
+  async getLastCommitDate(): Promise<Date | null> {
+    try {
+      const dates = await this.getCommitDates();
+      if (dates.length === 0) {
+        return null;
+      }
+      return new Date(Math.max(...dates.map(({ date }) => date.getTime())));
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import * as colors from "@std/fmt/colors";
+import {extname} from "@std/path";
+import {log} from "./logger.ts";
+import type {ZonedDate} from "./timezone.ts";
+
+// Weeks shown, like the contribution graph of a GitHub profile
+const WEEKS = 53;
+
+// Colors of the contribution levels, from no contributions to the busiest days
+const LEVEL_COLORS = ["#ebedf0", "#9be9a8", "#40c463", "#30a14e", "#216e39"];
+const LEVEL_TERMINAL_COLORS = [0x484f58, 0x0e4429, 0x006d32, 0x26a641, 0x39d353];
+// Different shapes per level keep the graph readable without colors
+const LEVEL_GLYPHS = ["·", "░", "▒", "▓", "█"];
+
+const WEEKDAYS = ["", "Mon", "", "Wed", "", "Fri", ""];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Contributions of a single day
+export interface HeatmapDay {
+  // Local date as YYYY-MM-DD
+  date: string;
+  // Already in the contributions repository
+  existing: number;
+  // Added by this sync
+  added: number;
+}
+
+// Contribution graph of the last 53 weeks, before and after a sync
+export interface Heatmap {
+  // Columns of the graph, one per week from Sunday to Saturday; days after the end are null
+  weeks: (HeatmapDay | null)[][];
+  existingTotal: number;
+  addedTotal: number;
+  // New contributions older than the graph, which GitHub does not show either
+  addedOutside: number;
+  // Contributions of the busiest day after the sync, the top of the color scale
+  max: number;
+}
+
+// Function to get the date of a timestamp as YYYY-MM-DD, in the given offset in minutes east of UTC
+// or else in the local time zone
+export function dayKey(date: Date, utcOffset?: number): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  if (utcOffset !== undefined) {
+    const shifted = new Date(date.getTime() + utcOffset * 60_000);
+    return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Function to build the contribution graph of the 53 weeks up to the end date,
+// from the dates of the commits already mirrored and the ones this sync adds. Commits count on the day of
+// the offset they are written in, like GitHub counts them.
+export function buildHeatmap(existingDates: ZonedDate[], addedDates: ZonedDate[], end = new Date()): Heatmap {
+  const start = new Date(end.getFullYear(), end.getMonth(), end.getDate() - end.getDay() - (WEEKS - 1) * 7);
+  const days = new Map<string, HeatmapDay>();
+  const weeks: (HeatmapDay | null)[][] = [];
+
+  for (let week = 0; week < WEEKS; week++) {
+    const column: (HeatmapDay | null)[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + week * 7 + weekday);
+      if (date > end) {
+        column.push(null);
+        continue;
+      }
+      const day = { date: dayKey(date), existing: 0, added: 0 };
+      days.set(day.date, day);
+      column.push(day);
+    }
+    weeks.push(column);
+  }
+
+  let existingTotal = 0;
+  let addedTotal = 0;
+  let addedOutside = 0;
+
+  for (const { date, utcOffset } of existingDates) {
+    const day = days.get(dayKey(date, utcOffset));
+    if (day) {
+      day.existing++;
+      existingTotal++;
+    }
+  }
+  for (const { date, utcOffset } of addedDates) {
+    const day = days.get(dayKey(date, utcOffset));
+    if (day) {
+      day.added++;
+      addedTotal++;
+    } else {
+      addedOutside++;
+    }
+  }
+
+  const max = Math.max(0, ...[...days.values()].map(day => day.existing + day.added));
+  return { weeks, existingTotal, addedTotal, addedOutside, max };
+}
+
+// Function to get the color level of a day, in quarters of the busiest day like GitHub
+function getLevel(count: number, max: number): number {
+  return count === 0 || max === 0 ? 0 : Math.min(4, Math.ceil((count / max) * 4));
+}
+
+// Function to get the label row with the month names above the weeks they start in
+function getMonthLabels(heatmap: Heatmap): { week: number; label: string }[] {
+  const labels: { week: number; label: string }[] = [];
+  let previousMonth = -1;
+
+  heatmap.weeks.forEach((column, week) => {
+    const firstDay = column.find(day => day !== null);
+    const month = firstDay ? Number(firstDay.date.substring(5, 7)) - 1 : previousMonth;
+    const lastLabel = labels[labels.length - 1];
+    // Labels are two weeks wide, so a month starting right after the previous label is left out
+    if (month !== previousMonth && (!lastLabel || week - lastLabel.week > 1)) {
+      labels.push({ week, label: MONTHS[month] });
+    }
+    previousMonth = month;
+  });
+
+  return labels;
+}
+
+// Function to render one graph in the terminal, counting only existing or all contributions
+function renderTerminalGraph(heatmap: Heatmap, count: (day: HeatmapDay) => number): string[] {
+  const cell = (level: number) => colors.rgb24(LEVEL_GLYPHS[level], LEVEL_TERMINAL_COLORS[level]);
+
+  let header = " ".repeat(4 + heatmap.weeks.length * 2);
+  for (const { week, label } of getMonthLabels(heatmap)) {
+    const position = 4 + week * 2;
+    header = header.substring(0, position) + label + header.substring(position + label.length);
+  }
+
+  const rows = WEEKDAYS.map((weekday, index) =>
+    weekday.padEnd(4) + heatmap.weeks
+      .map(column => column[index] ? cell(getLevel(count(column[index]!), heatmap.max)) : " ")
+      .join(" ")
+  );
+
+  return [header.trimEnd(), ...rows];
+}
+
+// Function to print the contribution graph before and after the sync, with a color legend
+export function printHeatmap(heatmap: Heatmap): void {
+  const legend = `Less ${[0, 1, 2, 3, 4].map(level => colors.rgb24(LEVEL_GLYPHS[level], LEVEL_TERMINAL_COLORS[level])).join(" ")} More`;
+
+  log.info(colors.bold(`\nContribution graph now (${heatmap.existingTotal} contributions in the last year)`));
+  renderTerminalGraph(heatmap, day => day.existing).forEach(line => log.info(line));
+
+  log.info(colors.bold(
+    `\nContribution graph after this sync (${heatmap.existingTotal + heatmap.addedTotal} contributions, ` +
+    `${heatmap.addedTotal} new)`,
+  ));
+  renderTerminalGraph(heatmap, day => day.existing + day.added).forEach(line => log.info(line));
+  log.info(`\n${legend}`);
+
+  const busiest = heatmap.weeks.flat()
+    .filter((day): day is HeatmapDay => day !== null && day.added > 0)
+    .sort((a, b) => b.added - a.added || a.date.localeCompare(b.date));
+  if (busiest.length > 0) {
+    log.info(`New contributions on ${busiest.length} days, most on ${busiest[0].date} (${busiest[0].added})`);
+  }
+  if (heatmap.addedOutside > 0) {
+    log.info(colors.yellow(`${heatmap.addedOutside} new contributions are older than the graph and will not show on it`));
+  }
+}
+
+// Function to escape text for HTML and SVG
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Function to render one graph as SVG, with the per-day counts as tooltips
+function renderSvg(heatmap: Heatmap, title: string, count: (day: HeatmapDay) => number): string {
+  const size = 11;
+  const gap = 3;
+  const left = 30;
+  const top = 20;
+  const width = left + heatmap.weeks.length * (size + gap);
+  const height = top + 7 * (size + gap);
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" ` +
+    `font-family="sans-serif" font-size="9" fill="#57606a">`,
+    `<title>${escapeXml(title)}</title>`,
+  ];
+
+  for (const { week, label } of getMonthLabels(heatmap)) {
+    parts.push(`<text x="${left + week * (size + gap)}" y="${top - 8}">${label}</text>`);
+  }
+  WEEKDAYS.forEach((weekday, index) => {
+    if (weekday) {
+      parts.push(`<text x="0" y="${top + index * (size + gap) + size - 2}">${weekday}</text>`);
+    }
+  });
+
+  heatmap.weeks.forEach((column, week) => {
+    column.forEach((day, weekday) => {
+      if (!day) {
+        return;
+      }
+      const total = count(day);
+      const details = total === day.existing ? "" : ` (${day.added} new)`;
+      parts.push(
+        `<rect x="${left + week * (size + gap)}" y="${top + weekday * (size + gap)}" width="${size}" height="${size}" ` +
+        `rx="2" fill="${LEVEL_COLORS[getLevel(total, heatmap.max)]}">` +
+        `<title>${total} contributions on ${day.date}${details}</title></rect>`,
+      );
+    });
+  });
+
+  parts.push("</svg>");
+  return parts.join("\n");
+}
+
+// Function to write the contribution graph as a standalone HTML page, or as an SVG image for .svg paths
+export async function writeHeatmap(heatmap: Heatmap, organization: string, path: string): Promise<void> {
+  const after = `Contribution graph of ${organization} after this sync`;
+
+  if (extname(path).toLowerCase() === ".svg") {
+    await Deno.writeTextFile(path, renderSvg(heatmap, after, day => day.existing + day.added) + "\n");
+    return;
+  }
+
+  const days = heatmap.weeks.flat()
+    .filter((day): day is HeatmapDay => day !== null && day.existing + day.added > 0)
+    .map(day => `<tr><td>${day.date}</td><td>${day.existing}</td><td>${day.added}</td></tr>`);
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(after)}</title>
+<style>
+body { font-family: sans-serif; color: #24292f; margin: 2em; }
+table { border-collapse: collapse; }
+td, th { padding: 2px 12px; text-align: right; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(organization)}</h1>
+<h2>Now: ${heatmap.existingTotal} contributions in the last year</h2>
+${renderSvg(heatmap, `Contribution graph of ${organization} now`, day => day.existing)}
+<h2>After this sync: ${heatmap.existingTotal + heatmap.addedTotal} contributions, ${heatmap.addedTotal} new</h2>
+${renderSvg(heatmap, after, day => day.existing + day.added)}
+<details>
+<summary>Contributions per day</summary>
+<table>
+<tr><th>Date</th><th>Existing</th><th>New</th></tr>
+${days.join("\n")}
+</table>
+</details>
+</body>
+</html>
+`;
+  await Deno.writeTextFile(path, html);
+}
@@ -0,0 +1,117 @@
+import {exists} from "@std/fs";
+import {join} from "@std/path";
+import type {ActivityKind} from "./activities.ts";
+import {GitOperations} from "./git.ts";
+
+// Entry of the sync ledger, one per mirrored Azure DevOps commit
+export interface LedgerEntry {
+  // Commit ID, or "<kind>:<id>" for activities other than commits
+  commitId: string;
+  kind?: ActivityKind;
+  project?: string;
+  repository?: string;
+  branch?: string;
+  date?: string;
+}
+
+// Persistent record of every Azure DevOps commit already mirrored, keyed by commit ID.
+// Stored as JSON lines inside the .git directory so it is never committed or pushed.
+export class SyncLedger {
+  private path: string;
+  private entries = new Map<string, LedgerEntry>();
+
+  constructor(repoPath: string) {
+    this.path = join(repoPath, ".git", "csync-azd-ledger.jsonl");
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Without `persist` a missing ledger is seeded in memory only, e.g. for dry runs
+  async load(gitOps: GitOperations, persist = true): Promise<void> {
+    this.entries.clear();
+
+    if (await exists(this.path)) {
+      const content = await Deno.readTextFile(this.path);
+      for (const line of content.split("\n")) {
+        if (!line.trim()) {
+          continue;
+        }
+        const entry = JSON.parse(line) as LedgerEntry;
+        this.entries.set(entry.commitId, entry);
+      }
+      return;
+    }
+
+    // Seed the ledger from the history of repositories synced before the ledger existed
+    const commitIds = await gitOps.getMirroredCommitIds();
+    const lines = commitIds.map(commitId => {
+      this.entries.set(commitId, { commitId });
+      return JSON.stringify({ commitId }) + "\n";
+    });
+    if (persist) {
+      await Deno.writeTextFile(this.path, lines.join(""));
+    }
+  }
+
+  // Records mirrored commits of the history that are missing from the ledger,
+  // e.g. when a run was interrupted between writing commits and recording them
+  async reconcile(gitOps: GitOperations): Promise<number> {
+    const missing = (await gitOps.getMirroredCommitIds()).filter(commitId => !this.entries.has(commitId));
+    if (missing.length > 0) {
+      await this.recordAll(missing.map(commitId => ({ commitId })));
+    }
+    return missing.length;
+  }
+
+  // Forgets mirrored commits, e.g. after their fake commits were removed from the history
+  async remove(commitIds: string[]): Promise<void> {
+    commitIds.forEach(commitId => this.entries.delete(commitId));
+    await this.rewrite();
+  }
+
+  // Renames the IDs of older versions, returning how many changed. Without `persist` only in memory.
+  async migrate(migrateId: (commitId: string) => string, persist = true): Promise<number> {
+    let migrated = 0;
+    for (const entry of [...this.entries.values()]) {
+      const commitId = migrateId(entry.commitId);
+      if (commitId !== entry.commitId) {
+        this.entries.delete(entry.commitId);
+        this.entries.set(commitId, { ...entry, commitId });
+        migrated++;
+      }
+    }
+    if (migrated > 0 && persist) {
+      await this.rewrite();
+    }
+    return migrated;
+  }
+
+  // The ledger is rewritten through a temporary file, so it is never left half written
+  private async rewrite(): Promise<void> {
+    const lines = [...this.entries.values()].map(entry => JSON.stringify(entry) + "\n");
+    await Deno.writeTextFile(`${this.path}.tmp`, lines.join(""));
+    await Deno.rename(`${this.path}.tmp`, this.path);
+  }
+
+  has(commitId: string): boolean {
+    return this.entries.has(commitId);
+  }
+
+  get(commitId: string): LedgerEntry | undefined {
+    return this.entries.get(commitId);
+  }
+
+  async record(entry: LedgerEntry): Promise<void> {
+    await this.recordAll([entry]);
+  }
+
+  async recordAll(entries: LedgerEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.entries.set(entry.commitId, entry);
+    }
+    const lines = entries.map(entry => JSON.stringify(entry) + "\n");
+    await Deno.writeTextFile(this.path, lines.join(""), { append: true });
+  }
+}
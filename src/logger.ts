@@ -0,0 +1,78 @@
+import ora from "ora";
+import * as colors from "@std/fmt/colors";
+
+// Log levels, from the most to the least verbose
+const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+type LogLevel = typeof LOG_LEVELS[number];
+
+// Leveled logger writing colored messages to the console and, optionally, JSON lines to a log file
+class Logger {
+  private level: LogLevel = "info";
+  private file: Deno.FsFile | null = null;
+  private encoder = new TextEncoder();
+
+  async configure(level: LogLevel, filePath?: string): Promise<void> {
+    this.level = level;
+    if (filePath) {
+      this.file = await Deno.open(filePath, { create: true, append: true });
+    }
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.write("error", message, fields);
+  }
+
+  // Structured data for the log file only, such as the run summary
+  record(message: string, fields: Record<string, unknown>): void {
+    this.writeFile("info", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    if (this.isEnabled(level)) {
+      const print = level === "warn" || level === "error" ? console.error : console.log;
+      print(level === "debug" ? colors.gray(message) : message);
+    }
+
+    // --quiet only quiets the console; the log file keeps everything down to info
+    if (level !== "debug" || this.isEnabled("debug")) {
+      this.writeFile(level, message, fields);
+    }
+  }
+
+  private writeFile(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+    if (!this.file) {
+      return;
+    }
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      message: colors.stripAnsiCode(message).trim(),
+      ...fields,
+    };
+    this.file.writeSync(this.encoder.encode(JSON.stringify(entry) + "\n"));
+  }
+}
+
+export const log = new Logger();
+
+// Function to create a progress spinner, which stays silent when info messages are not shown
+export function createSpinner(text?: string) {
+  return ora({ text, isSilent: !log.isEnabled("info") });
+}
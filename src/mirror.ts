@@ -0,0 +1,70 @@
+import type {Activity} from "./activities.ts";
+import type {GitOperations} from "./git.ts";
+import type {SyncLedger} from "./ledger.ts";
+import {applyPrivacy, type PrivacySettings} from "./privacy.ts";
+import {type CommitTemplate, formatActivities} from "./templates.ts";
+import type {CommitPlan} from "./weighting.ts";
+
+// How activities are turned into fake commits
+export interface MirrorSettings {
+  organization: string;
+  privacy: PrivacySettings;
+  templates: Partial<CommitTemplate>;
+  // Size fake commits of commits by the number of files the original changed
+  changeSize?: boolean;
+}
+
+// Commits written by a single git fast-import run. The ledger is updated after every batch,
+// so an interrupted run keeps the batches it finished.
+const BATCH_SIZE = 500;
+
+// Function to record activities in the sync ledger
+async function recordActivities(ledger: SyncLedger, activities: Activity[]): Promise<void> {
+  try {
+    await ledger.recordAll(activities.map(activity => ({
+      commitId: activity.id,
+      kind: activity.kind,
+      project: activity.project,
+      repository: activity.repository,
+      branch: activity.branch,
+      date: activity.date.toISOString(),
+    })));
+  } catch (error: any) {
+    throw new Error(`Failed to update the sync ledger: ${error.message}`);
+  }
+}
+
+// Function to write the planned fake commits and record their activities in the sync ledger.
+// The ledger is only updated once all commits of a batch are written.
+export async function mirrorActivities(
+  gitOps: GitOperations,
+  ledger: SyncLedger,
+  plan: CommitPlan,
+  settings: MirrorSettings,
+  onProgress?: (written: number) => void,
+): Promise<void> {
+  for (let start = 0; start < plan.commits.length; start += BATCH_SIZE) {
+    const batch = plan.commits.slice(start, start + BATCH_SIZE);
+
+    const pendingCommits = [];
+    for (const activities of batch) {
+      const visible = await Promise.all(
+        activities.map(activity => applyPrivacy(activity, settings.organization, settings.privacy)),
+      );
+      pendingCommits.push(formatActivities(visible, settings.templates, settings.changeSize));
+    }
+
+    try {
+      await gitOps.writeCommits(pendingCommits, onProgress && ((written) => onProgress(start + written)));
+    } catch (error: any) {
+      throw new Error(`Failed to create commits: ${error.message}`);
+    }
+
+    await recordActivities(ledger, batch.flat());
+  }
+
+  // Activities of days that reached their cap get no fake commit, but must not be mirrored later either
+  if (plan.capped.length > 0) {
+    await recordActivities(ledger, plan.capped);
+  }
+}
@@ -0,0 +1,49 @@
+import type {Activity} from "./activities.ts";
+
+// How project, repository and branch names appear in fake commits
+export const NAME_VISIBILITIES = ["full", "hashed", "redacted"] as const;
+export type NameVisibility = typeof NAME_VISIBILITIES[number];
+
+// What metadata of the original contribution may end up in fake commits
+export interface PrivacySettings {
+  names?: NameVisibility;
+  includeMessages?: boolean;
+  includeAuthors?: boolean;
+  // Regular expressions; matches in any mirrored text are replaced with "[redacted]"
+  redact?: string[];
+}
+
+// Function to replace a name with a short, stable pseudonym
+async function hashName(organization: string, name: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${organization}/${name}`));
+  return Array.from(new Uint8Array(digest).slice(0, 4), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Function to strip an activity of everything the privacy settings do not allow
+export async function applyPrivacy(activity: Activity, organization: string, privacy: PrivacySettings): Promise<Activity> {
+  const redactions = (privacy.redact ?? []).map(pattern => new RegExp(pattern, "gi"));
+  const redact = (value: string) =>
+    redactions.reduce((result, regExp) => result.replace(regExp, "[redacted]"), value);
+
+  const hideName = async (name: string) => {
+    switch (privacy.names ?? "full") {
+      case "full":
+        return name;
+      case "hashed":
+        return await hashName(organization, name);
+      case "redacted":
+        return "[redacted]";
+    }
+  };
+
+  const includeAuthors = privacy.includeAuthors ?? true;
+  return {
+    ...activity,
+    project: redact(await hideName(activity.project)),
+    repository: activity.repository === undefined ? undefined : redact(await hideName(activity.repository)),
+    branch: activity.branch === undefined ? undefined : redact(await hideName(activity.branch)),
+    title: privacy.includeMessages ?? true ? redact(activity.title ?? "") : "",
+    authorName: includeAuthors ? redact(activity.authorName ?? "") : "",
+    authorEmail: includeAuthors ? redact(activity.authorEmail ?? "") : "",
+  };
+}
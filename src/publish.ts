@@ -0,0 +1,53 @@
+import {Confirm} from "@cliffy/prompt";
+import * as colors from "@std/fmt/colors";
+import {GitOperations} from "./git.ts";
+import {createSpinner, log} from "./logger.ts";
+
+// Where and whether to push the contributions repository after a sync
+export interface PublishSettings {
+  remoteUrl?: string;
+  branch?: string;
+  push: boolean;
+  dryRun: boolean;
+}
+
+// Function to push the contributions repository to its remote.
+// A dry run only reports what would be pushed; in interactive mode it is shown
+// before every push, which then needs confirmation.
+export async function publishContributions(gitOps: GitOperations, settings: PublishSettings, interactive: boolean): Promise<boolean> {
+  if (!settings.remoteUrl || (!settings.push && !settings.dryRun)) {
+    return true;
+  }
+
+  const spinner = createSpinner(`Checking what would be pushed to ${settings.remoteUrl}...`).start();
+
+  try {
+    const branch = settings.branch ?? await gitOps.getCurrentBranch();
+
+    if (settings.dryRun || interactive) {
+      const report = await gitOps.push(branch, true, interactive);
+      spinner.succeed(`Dry run of pushing to ${settings.remoteUrl} (${branch}):`);
+      log.info(colors.gray(report));
+
+      if (settings.dryRun) {
+        return true;
+      }
+
+      const confirmed = await Confirm.prompt({
+        message: `Push the contributions to ${settings.remoteUrl} (${branch})?`,
+        default: true,
+      });
+      if (!confirmed) {
+        return true;
+      }
+    }
+
+    spinner.start(`Pushing to ${settings.remoteUrl} (${branch})...`);
+    await gitOps.push(branch, false, interactive);
+    spinner.succeed(`Pushed the contributions to ${settings.remoteUrl} (${branch})`);
+    return true;
+  } catch (error: any) {
+    spinner.fail(error.message);
+    return false;
+  }
+}
@@ -0,0 +1,131 @@
+import * as colors from "@std/fmt/colors";
+import type {Ora} from "ora";
+import {ACTIVITY_KINDS, type ActivityKind, getOrganizationKey, migrateActivityId} from "./activities.ts";
+import type {AzureDevOpsClient} from "./azure_devops.ts";
+import type {GitOperations, MirroredCommit} from "./git.ts";
+import type {LedgerEntry, SyncLedger} from "./ledger.ts";
+import {log} from "./logger.ts";
+import {type RunItem, searchActivities, type SearchSettings} from "./search.ts";
+
+// What to compare the contributions repository with. The date range and activity kinds
+// follow from the fake commits themselves.
+export type ReconcileSettings = Omit<SearchSettings, "fromDate" | "toDate" | "activityKinds">;
+
+// Fake commits whose originals no longer exist in Azure DevOps, and how the search went
+export interface ReconcilePlan {
+  // Fake commits of vanished activities only, which are removed
+  orphans: MirroredCommit[];
+  // Fake commits grouping vanished and existing activities, which are kept
+  partial: MirroredCommit[];
+  // Fake commits compared with Azure DevOps
+  checked: number;
+  repositories: string[];
+  failed: RunItem[];
+  skipped: RunItem[];
+}
+
+// Function to get the kind of activity a ledger ID belongs to; commits are keyed by their bare commit ID
+function getKind(id: string): ActivityKind | undefined {
+  const kind = id.includes(":") ? id.substring(0, id.indexOf(":")) : "commits";
+  return (ACTIVITY_KINDS as readonly string[]).includes(kind) ? kind as ActivityKind : undefined;
+}
+
+// Function to tell whether the search covered where an activity was found. Skipped repositories and projects,
+// e.g. excluded by filters, disabled or forks, were not searched, so their activities cannot have vanished.
+// Entries seeded from the history before the ledger knew where they came from are only covered by a full search.
+function wasSearched(entry: LedgerEntry | undefined, skipped: Set<string>): boolean {
+  if (!entry?.project) {
+    return skipped.size === 0;
+  }
+  if (skipped.has(entry.project)) {
+    return false;
+  }
+  switch (entry.kind ?? getKind(entry.commitId)) {
+    case "changesets":
+      return !skipped.has(`$/${entry.project}`);
+    case "work-items":
+      return true;
+    default:
+      return !entry.repository || !skipped.has(`${entry.project}/${entry.repository}`);
+  }
+}
+
+// Function to find the fake commits whose originals Azure DevOps no longer returns, e.g. commits of
+// deleted repositories, force-pushed branches or rewritten authors. Everything mirrored is searched
+// again, from the oldest fake commit on, with the given settings.
+export async function findOrphans(
+  client: AzureDevOpsClient,
+  gitOps: GitOperations,
+  ledger: SyncLedger,
+  settings: ReconcileSettings,
+  spinner: Ora,
+): Promise<ReconcilePlan> {
+  // Fake commits of older versions name the organization in their IDs, the ledger and the search use its key
+  const organizationKey = await getOrganizationKey(settings.organization);
+  const mirrored = (await gitOps.getMirroredCommits())
+    .map(commit => ({ ...commit, ids: commit.ids.map(id => migrateActivityId(id, settings.organization, organizationKey)) }))
+    .filter(commit => commit.ids.length > 0);
+  const plan: ReconcilePlan = { orphans: [], partial: [], checked: mirrored.length, repositories: [], failed: [], skipped: [] };
+  if (mirrored.length === 0) {
+    return plan;
+  }
+
+  const activityKinds = [...new Set(mirrored.flatMap(commit => commit.ids.map(getKind)))]
+    .filter((kind): kind is ActivityKind => kind !== undefined);
+
+  // A day earlier, so the original of the oldest fake commit is found in every time zone
+  const oldest = Math.min(...mirrored.map(commit => commit.date.getTime()));
+  const fromDate = new Date(oldest - 24 * 60 * 60 * 1000);
+
+  log.info(colors.yellow(`Comparing ${mirrored.length} fake commits with Azure DevOps since ${fromDate.toLocaleString()}`));
+
+  const search = await searchActivities(client, ledger, { ...settings, fromDate, activityKinds }, spinner);
+  plan.repositories = search.repositories;
+  plan.failed = search.failed;
+  plan.skipped = search.skipped;
+
+  // IDs of kinds that cannot be searched, or found where the search did not look, are never treated as vanished
+  const existing = new Set([...search.activities, ...search.duplicates].map(activity => activity.id));
+  const skipped = new Set(search.skipped.map(item => item.name));
+  const vanished = (id: string) =>
+    getKind(id) !== undefined && !existing.has(id) && wasSearched(ledger.get(id), skipped);
+
+  for (const commit of mirrored) {
+    if (commit.ids.every(vanished)) {
+      plan.orphans.push(commit);
+    } else if (commit.ids.some(vanished)) {
+      plan.partial.push(commit);
+    }
+  }
+
+  return plan;
+}
+
+// Function to list the fake commits that would be removed, and the ones kept although some of their originals vanished
+export function printOrphans(plan: ReconcilePlan): void {
+  if (plan.orphans.length > 0) {
+    log.info(colors.bold(`\n${plan.orphans.length} of ${plan.checked} fake commits mirror contributions that no longer exist:`));
+    for (const commit of plan.orphans) {
+      log.info(`  ${commit.date.toLocaleString()}  ${commit.sha.substring(0, 8)}  ${commit.message}`);
+    }
+  }
+
+  if (plan.partial.length > 0) {
+    log.info(colors.yellow(`\n${plan.partial.length} fake commits are kept, as only some of the contributions they group vanished:`));
+    for (const commit of plan.partial) {
+      log.info(colors.gray(`  ${commit.date.toLocaleString()}  ${commit.sha.substring(0, 8)}  ${commit.message}`));
+    }
+  }
+}
+
+// Function to rebuild the history of the contributions repository without the orphaned fake commits,
+// and forget their originals in the sync ledger
+export async function removeOrphans(gitOps: GitOperations, ledger: SyncLedger, plan: ReconcilePlan): Promise<void> {
+  await gitOps.removeCommits(new Set(plan.orphans.map(commit => commit.sha)));
+
+  try {
+    await ledger.remove(plan.orphans.flatMap(commit => commit.ids));
+  } catch (error: any) {
+    throw new Error(`Failed to update the sync ledger: ${error.message}`);
+  }
+}
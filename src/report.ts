@@ -0,0 +1,137 @@
+import * as colors from "@std/fmt/colors";
+import type {Activity, ActivityKind} from "./activities.ts";
+import {log} from "./logger.ts";
+
+// Row of a sync report, one per contribution found
+interface ReportEntry {
+  status: "new" | "duplicate";
+  kind: ActivityKind;
+  id: string;
+  date: string;
+  project: string;
+  repository?: string;
+  branch?: string;
+  reference: string;
+  authorEmail: string;
+}
+
+// Counts of new and already mirrored contributions
+interface ReportCounts {
+  new: number;
+  duplicate: number;
+}
+
+// What a sync found, for dry runs and as an audit trail
+interface SyncReport {
+  organization: string;
+  generatedAt: string;
+  dryRun: boolean;
+  fromDate: string;
+  toDate?: string;
+  totals: ReportCounts;
+  byRepository: Record<string, ReportCounts>;
+  byEmail: Record<string, ReportCounts>;
+  // New contributions per month (YYYY-MM)
+  byMonth: Record<string, number>;
+  entries: ReportEntry[];
+}
+
+// Function to summarize new and already mirrored activities
+export function buildReport(
+  organization: string,
+  activities: Activity[],
+  duplicates: Activity[],
+  range: { fromDate: Date; toDate?: Date; dryRun: boolean },
+): SyncReport {
+  const report: SyncReport = {
+    organization,
+    generatedAt: new Date().toISOString(),
+    dryRun: range.dryRun,
+    fromDate: range.fromDate.toISOString(),
+    toDate: range.toDate?.toISOString(),
+    totals: { new: 0, duplicate: 0 },
+    byRepository: {},
+    byEmail: {},
+    byMonth: {},
+    entries: [],
+  };
+
+  const add = (activity: Activity, status: ReportEntry["status"]) => {
+    const location = activity.repository ? `${activity.project}/${activity.repository}` : activity.project;
+    const email = activity.authorEmail?.toLowerCase() ?? "";
+
+    report.totals[status]++;
+    (report.byRepository[location] ??= { new: 0, duplicate: 0 })[status]++;
+    (report.byEmail[email] ??= { new: 0, duplicate: 0 })[status]++;
+    if (status === "new") {
+      const month = activity.date.toISOString().substring(0, 7);
+      report.byMonth[month] = (report.byMonth[month] ?? 0) + 1;
+    }
+
+    report.entries.push({
+      status,
+      kind: activity.kind,
+      id: activity.id,
+      date: activity.date.toISOString(),
+      project: activity.project,
+      repository: activity.repository,
+      branch: activity.branch,
+      reference: activity.reference,
+      authorEmail: activity.authorEmail,
+    });
+  };
+
+  activities.forEach(activity => add(activity, "new"));
+  duplicates.forEach(activity => add(activity, "duplicate"));
+  report.entries.sort((a, b) => a.date.localeCompare(b.date));
+  return report;
+}
+
+// Function to print a report as tables and a monthly histogram
+export function printReport(report: SyncReport): void {
+  const printTable = (title: string, group: Record<string, ReportCounts>) => {
+    const keys = Object.keys(group).sort();
+    if (keys.length === 0) {
+      return;
+    }
+
+    const width = Math.max(title.length, ...keys.map(key => key.length));
+    log.info(colors.bold(`\n${title.padEnd(width)}  ${"new".padStart(6)}  ${"duplicate".padStart(9)}`));
+    for (const key of keys) {
+      const { new: added, duplicate } = group[key];
+      log.info(`${key.padEnd(width)}  ${String(added).padStart(6)}  ${colors.gray(String(duplicate).padStart(9))}`);
+    }
+  };
+
+  printTable("Project/Repository", report.byRepository);
+  printTable("Email", report.byEmail);
+
+  const months = Object.keys(report.byMonth).sort();
+  if (months.length > 0) {
+    const max = Math.max(...Object.values(report.byMonth));
+    log.info(colors.bold("\nNew contributions per month"));
+    for (const month of months) {
+      const value = report.byMonth[month];
+      const bar = "█".repeat(Math.max(1, Math.round(value / max * 40)));
+      log.info(`${month}  ${colors.green(bar)} ${value}`);
+    }
+  }
+
+  log.info(colors.bold(`\nTotal: ${report.totals.new} new, ${report.totals.duplicate} already mirrored`));
+}
+
+// Function to write a report as JSON or, for paths ending in .csv, as CSV
+export async function writeReport(report: SyncReport, path: string): Promise<void> {
+  if (!path.toLowerCase().endsWith(".csv")) {
+    await Deno.writeTextFile(path, JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const columns = ["status", "kind", "id", "date", "project", "repository", "branch", "reference", "authorEmail"] as const;
+  const escape = (value = "") => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const lines = [
+    columns.join(","),
+    ...report.entries.map(entry => columns.map(column => escape(entry[column])).join(",")),
+  ];
+  await Deno.writeTextFile(path, lines.join("\n") + "\n");
+}
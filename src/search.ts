@@ -0,0 +1,406 @@
+import * as colors from "@std/fmt/colors";
+import type {Ora} from "ora";
+import {type Activity, type ActivityKind, changesetActivity, commitActivity, getOrganizationKey, matchesChangeset, matchesCommit, pullRequestActivities, workItemActivities} from "./activities.ts";
+import type {AzureDevOpsClient} from "./azure_devops.ts";
+import type {SyncCheckpoint} from "./checkpoint.ts";
+import {createLimiter, runConcurrently} from "./concurrency.ts";
+import {matchesPatterns, type NamePattern} from "./filters.ts";
+import type {SyncLedger} from "./ledger.ts";
+import {log} from "./logger.ts";
+
+// Project or repository that failed or was skipped during a search, and why
+export interface RunItem {
+  name: string;
+  reason: string;
+}
+
+// What to search for in one organization
+export interface SearchSettings {
+  organization: string;
+  emails: string[];
+  fromDate: Date;
+  toDate?: Date;
+  activityKinds: ActivityKind[];
+  // Also match commits where one of the emails is only the committer
+  matchCommitter: boolean;
+  projects: NamePattern[];
+  repositories: NamePattern[];
+  // Only the default branch is searched when there are no branch patterns
+  branches: NamePattern[];
+  skipForks: boolean;
+  concurrency: number;
+}
+
+// Activities found by a search, and how the search went
+export interface SearchResult {
+  activities: Activity[];
+  // Activities already recorded in the sync ledger
+  duplicates: Activity[];
+  // Repositories and TFVC projects selected for the search
+  repositories: string[];
+  failed: RunItem[];
+  skipped: RunItem[];
+}
+
+// Function to search an organization for the activities of the given email addresses.
+// Projects and repositories that fail are recorded in the result instead of stopping the search.
+// With a checkpoint, every finished repository and project is saved, and steps finished by an
+// interrupted run are replayed from it instead of being searched again.
+export async function searchActivities(
+  client: AzureDevOpsClient,
+  ledger: SyncLedger,
+  settings: SearchSettings,
+  spinner: Ora,
+  checkpoint?: SyncCheckpoint,
+): Promise<SearchResult> {
+  const {
+    organization,
+    emails,
+    fromDate,
+    toDate,
+    activityKinds,
+    matchCommitter,
+    skipForks,
+    concurrency,
+    projects: projectPatterns,
+    repositories: repositoryPatterns,
+    branches: branchPatterns,
+  } = settings;
+
+  const organizationKey = await getOrganizationKey(organization);
+  const selectedItems: string[] = [];
+  const failedItems: RunItem[] = [];
+  const skippedItems: RunItem[] = [];
+
+  // Fetch projects and repositories. Without projects there is nothing to search, so that failure is thrown.
+  spinner.start("Fetching projects...");
+
+  const allProjects = await client.getProjects();
+  const projects = allProjects.filter(project => matchesPatterns(projectPatterns, project.name));
+  for (const project of allProjects) {
+    if (!projects.includes(project)) {
+      skippedItems.push({ name: project.name, reason: "excluded by the project filters" });
+    }
+  }
+  spinner.succeed(`Found ${allProjects.length} projects`);
+
+  if (projectPatterns.length > 0) {
+    log.info(colors.yellow(`${projects.length} projects match the project filters`));
+  }
+
+  // Activities are keyed by ID, since one commit can be found on several branches; the first one found is kept.
+  const foundActivities = new Map<string, Activity>();
+  const alreadyMirrored = new Map<string, Activity>();
+
+  const addActivity = (activity: Activity) => {
+    if (activity.date < fromDate || (toDate && activity.date > toDate)) {
+      return;
+    }
+    const activities = ledger.has(activity.id) ? alreadyMirrored : foundActivities;
+    if (!activities.has(activity.id)) {
+      activities.set(activity.id, activity);
+    }
+  };
+
+  // Runs a search step, or replays what it found before an interruption.
+  // Failed steps are not saved, so a resumed run tries them again.
+  const runStep = async (
+    key: string,
+    step: () => Promise<{ activities: Activity[]; branches?: string[] }>,
+  ): Promise<{ branches?: string[]; resumed: boolean }> => {
+    const finished = checkpoint?.getStep(key);
+    const { activities, branches } = finished ?? await step();
+    activities.forEach(addActivity);
+    if (!finished) {
+      await checkpoint?.completeStep(key, activities, branches).catch((error: any) => {
+        spinner.clear();
+        log.warn(colors.yellow(`Warning: Failed to save the checkpoint: ${error.message}`));
+      });
+    }
+    return { branches, resumed: !!finished };
+  };
+
+  // Pull requests are needed both for pull request activities and for commits of deleted branches
+  const pullRequestsByProject = new Map<string, Promise<any[]>>();
+  const getPullRequests = (projectId: string) => {
+    if (!pullRequestsByProject.has(projectId)) {
+      pullRequestsByProject.set(projectId, client.getPullRequests(projectId));
+    }
+    return pullRequestsByProject.get(projectId)!;
+  };
+
+  const repositories: { project: any; repo: any }[] = [];
+  let fetchedProjects = 0;
+
+  spinner.start(`Fetching repositories (0/${projects.length} projects)...`);
+
+  await runConcurrently(projects, concurrency, async (project) => {
+    try {
+      const allRepositories = await client.getRepositories(project.id);
+      let skipped = 0;
+
+      for (const repo of allRepositories) {
+        const reason = repo.isDisabled
+          ? "disabled"
+          : skipForks && repo.isFork
+          ? "fork"
+          : !matchesPatterns(repositoryPatterns, repo.name, `${project.name}/${repo.name}`)
+          ? "excluded by the repository filters"
+          : null;
+
+        if (reason) {
+          skippedItems.push({ name: `${project.name}/${repo.name}`, reason });
+          log.debug(`Skipping ${project.name}/${repo.name}: ${reason}`);
+          skipped++;
+        } else {
+          repositories.push({ project, repo });
+          selectedItems.push(`${project.name}/${repo.name}`);
+        }
+      }
+
+      spinner.succeed(
+        `Found ${allRepositories.length} repositories in project ${project.name}` +
+        (skipped > 0 ? ` (${skipped} skipped)` : ""),
+      );
+    } catch (error: any) {
+      spinner.clear();
+      log.error(colors.red(`Failed to fetch repositories for project ${project.name}: ${error.message}`));
+      failedItems.push({ name: project.name, reason: `Failed to fetch repositories: ${error.message}` });
+    }
+
+    fetchedProjects++;
+    spinner.start(`Fetching repositories (${fetchedProjects}/${projects.length} projects)...`);
+  });
+
+  spinner.stop();
+
+  if (activityKinds.includes("commits")) {
+    const branchesByRepository = new Map<string, Set<string>>();
+    let searchedRepositories = 0;
+    spinner.start(`Searching commits (0/${repositories.length} repositories)...`);
+
+    await runConcurrently(repositories, concurrency, async ({ project, repo }) => {
+      try {
+        const { branches: allBranches, resumed } = await runStep(`commits:${repo.id}`, async () => {
+          const activities: Activity[] = [];
+
+          // Without branch patterns only the default branch is searched
+          const defaultBranch: string | undefined = repo.defaultBranch?.replace(/^refs\/heads\//, "");
+          let branches = [defaultBranch];
+          let allBranches: string[] | undefined;
+
+          if (branchPatterns.length > 0) {
+            allBranches = await client.getBranches(project.id, repo.id);
+
+            // The default branch goes first, so commits that reached it are attributed to it
+            branches = allBranches
+              .filter(branch => matchesPatterns(branchPatterns, branch))
+              .sort((a, b) => Number(b === defaultBranch) - Number(a === defaultBranch));
+          }
+
+          for (const branch of branches) {
+            const commits = await client.getCommits(
+              project.id,
+              repo.id,
+              fromDate,
+              toDate,
+              branchPatterns.length > 0 ? branch : undefined,
+            );
+
+            // The API filters by commit date, but fake commits are dated by their author date
+            const matching = commits.filter(commit => matchesCommit(commit, emails, matchCommitter));
+            for (const commit of matching) {
+              activities.push(commitActivity(commit, project.name, repo.name, branch));
+            }
+
+            spinner.clear();
+            log.debug(
+              `${project.name}/${repo.name}${branch ? ` (${branch})` : ""}: ` +
+              `${matching.length} of ${commits.length} commits match`,
+            );
+          }
+
+          return { activities, branches: allBranches };
+        });
+
+        if (allBranches) {
+          branchesByRepository.set(repo.id, new Set(allBranches));
+        }
+
+        spinner.succeed(resumed
+          ? `Resumed ${project.name}/${repo.name} from the checkpoint`
+          : `Processed ${project.name}/${repo.name}`);
+      } catch (error: any) {
+        spinner.clear();
+        log.error(colors.red(`Error fetching commits in ${project.name}/${repo.name}: ${error.message}`));
+        failedItems.push({ name: `${project.name}/${repo.name}`, reason: `Failed to fetch commits: ${error.message}` });
+      }
+
+      searchedRepositories++;
+      spinner.start(`Searching commits (${searchedRepositories}/${repositories.length} repositories)...`);
+    });
+
+    spinner.succeed(`Searched ${repositories.length} repositories`);
+
+    // Branches deleted after their pull request was completed, e.g. with a squash merge,
+    // only live on in the commits of the pull request
+    if (branchPatterns.length > 0) {
+      // Projects are searched side by side, so their pull requests share one limit
+      const limit = createLimiter(concurrency);
+      spinner.start("Searching commits of deleted branches...");
+
+      await runConcurrently(projects, concurrency, async (project) => {
+        try {
+          await runStep(`deleted-branches:${project.id}`, async () => {
+            const activities: Activity[] = [];
+            const pullRequests = (await limit(() => getPullRequests(project.id))).filter(pullRequest => {
+              const branch = pullRequest.sourceRefName?.replace(/^refs\/heads\//, "");
+              const existingBranches = branchesByRepository.get(pullRequest.repository?.id);
+              return pullRequest.status === "completed" &&
+                existingBranches && branch && !existingBranches.has(branch) &&
+                matchesPatterns(branchPatterns, branch) &&
+                new Date(pullRequest.closedDate) >= fromDate;
+            });
+
+            await Promise.all(pullRequests.map(pullRequest => limit(async () => {
+              const branch = pullRequest.sourceRefName.replace(/^refs\/heads\//, "");
+              const commits = await client.getPullRequestCommits(
+                project.id,
+                pullRequest.repository.id,
+                pullRequest.pullRequestId,
+              );
+
+              for (const commit of commits) {
+                if (matchesCommit(commit, emails, matchCommitter)) {
+                  activities.push(commitActivity(commit, project.name, pullRequest.repository.name, branch));
+                }
+              }
+            })));
+
+            return { activities };
+          });
+        } catch (error: any) {
+          spinner.clear();
+          log.error(colors.red(`Error fetching commits of deleted branches in ${project.name}: ${error.message}`));
+          failedItems.push({ name: project.name, reason: `Failed to fetch commits of deleted branches: ${error.message}` });
+        }
+      });
+
+      spinner.succeed("Searched commits of deleted branches");
+    }
+  }
+
+  if (activityKinds.includes("changesets")) {
+    // TFVC has one version control tree per project, so only the project filters apply
+    let searchedProjects = 0;
+    let tfvcProjects = 0;
+    spinner.start(`Searching TFVC changesets (0/${projects.length} projects)...`);
+
+    await runConcurrently(projects, concurrency, async (project) => {
+      const name = `$/${project.name}`;
+      try {
+        if (await client.hasTfvc(project.id)) {
+          tfvcProjects++;
+          selectedItems.push(name);
+
+          await runStep(`changesets:${project.id}`, async () => {
+            // The author filter takes one identity, and a changeset only has one author
+            const changesets = new Map<number, any>();
+            for (const email of emails) {
+              const found = await client.getChangesets(project.id, email, fromDate, toDate);
+              found.forEach(changeset => changesets.set(changeset.changesetId, changeset));
+            }
+
+            const matching = [...changesets.values()].filter(changeset => matchesChangeset(changeset, emails));
+            spinner.clear();
+            log.debug(`${name}: ${matching.length} of ${changesets.size} changesets match`);
+
+            return { activities: matching.map(changeset => changesetActivity(organizationKey, changeset, project.name)) };
+          });
+        }
+      } catch (error: any) {
+        spinner.clear();
+        log.error(colors.red(`Error fetching changesets in ${name}: ${error.message}`));
+        failedItems.push({ name, reason: `Failed to fetch changesets: ${error.message}` });
+      }
+
+      searchedProjects++;
+      spinner.text = `Searching TFVC changesets (${searchedProjects}/${projects.length} projects)...`;
+    });
+
+    spinner.succeed(`Searched TFVC changesets in ${tfvcProjects} of ${projects.length} projects`);
+  }
+
+  if (activityKinds.some(kind => kind.startsWith("pr-"))) {
+    // Pull requests are listed per project and narrowed down to the selected repositories
+    const selectedRepositoryIds = new Set(repositories.map(({ repo }) => repo.id));
+    let searchedProjects = 0;
+    spinner.start(`Searching pull requests (0/${projects.length} projects)...`);
+
+    await runConcurrently(projects, concurrency, async (project) => {
+      try {
+        await runStep(`pull-requests:${project.id}`, async () => {
+          const pullRequests = await getPullRequests(project.id);
+          const activities = pullRequests
+            .filter(pullRequest => selectedRepositoryIds.has(pullRequest.repository?.id))
+            .flatMap(pullRequest => pullRequestActivities(pullRequest, project.name, emails, activityKinds));
+          return { activities };
+        });
+      } catch (error: any) {
+        spinner.clear();
+        log.error(colors.red(`Error fetching pull requests in ${project.name}: ${error.message}`));
+        failedItems.push({ name: project.name, reason: `Failed to fetch pull requests: ${error.message}` });
+      }
+
+      searchedProjects++;
+      spinner.text = `Searching pull requests (${searchedProjects}/${projects.length} projects)...`;
+    });
+
+    spinner.succeed(`Searched pull requests in ${projects.length} projects`);
+  }
+
+  if (activityKinds.includes("work-items")) {
+    // Projects are searched side by side, so their work items share one limit
+    const limit = createLimiter(concurrency);
+    let searchedProjects = 0;
+    spinner.start(`Searching work items (0/${projects.length} projects)...`);
+
+    await runConcurrently(projects, concurrency, async (project) => {
+      try {
+        await runStep(`work-items:${project.id}`, async () => {
+          const activities: Activity[] = [];
+          const workItemIds = new Set<number>();
+          for (const email of emails) {
+            const ids = await limit(() => client.getChangedWorkItemIds(project.id, email, fromDate, toDate));
+            ids.forEach(id => workItemIds.add(id));
+          }
+
+          await Promise.all([...workItemIds].map(workItemId => limit(async () => {
+            const updates = await client.getWorkItemUpdates(project.id, workItemId);
+            activities.push(...workItemActivities(organizationKey, workItemId, updates, project.name, emails));
+          })));
+
+          return { activities };
+        });
+      } catch (error: any) {
+        spinner.clear();
+        log.error(colors.red(`Error fetching work items in ${project.name}: ${error.message}`));
+        failedItems.push({ name: project.name, reason: `Failed to fetch work items: ${error.message}` });
+      }
+
+      searchedProjects++;
+      spinner.text = `Searching work items (${searchedProjects}/${projects.length} projects)...`;
+    });
+
+    spinner.succeed(`Searched work items in ${projects.length} projects`);
+  }
+
+  return {
+    // Oldest first, the order the fake commits are written in
+    activities: Array.from(foundActivities.values()).sort((a, b) => a.date.getTime() - b.date.getTime()),
+    duplicates: Array.from(alreadyMirrored.values()),
+    repositories: selectedItems,
+    failed: failedItems,
+    skipped: skippedItems,
+  };
+}
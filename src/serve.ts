@@ -0,0 +1,274 @@
+import * as colors from "@std/fmt/colors";
+import {type Activity, commitActivity, matchesCommit} from "./activities.ts";
+import {readConfig} from "./config.ts";
+import {matchesPatterns, type NamePattern, parsePatterns} from "./filters.ts";
+import {GitOperations} from "./git.ts";
+import {SyncLedger} from "./ledger.ts";
+import {log} from "./logger.ts";
+import {mirrorActivities, type MirrorSettings} from "./mirror.ts";
+import {publishContributions, type PublishSettings} from "./publish.ts";
+import {ExitCode, type SyncOptions} from "./sync.ts";
+import {applyTimeZone} from "./timezone.ts";
+import {DEFAULT_DAILY_CAP, planCommits, type WeightingSettings} from "./weighting.ts";
+
+// Default port and address of the webhook listener
+export const DEFAULT_WEBHOOK_PORT = 8080;
+export const DEFAULT_WEBHOOK_HOSTNAME = "0.0.0.0";
+
+// Environment variable holding the shared secret, unless configured otherwise
+export const DEFAULT_SECRET_ENV = "CSYNC_AZD_WEBHOOK_SECRET";
+
+// Header carrying the shared secret, added as an HTTP header to the Service Hook subscription
+export const SECRET_HEADER = "X-Csync-Azd-Secret";
+
+// Path Service Hooks are posted to
+export const WEBHOOK_PATH = "/webhook";
+
+// Which pushed commits are mirrored, and how
+export interface WebhookSettings {
+  // Expected in the secret header, or as the password of basic authentication
+  secret: string;
+  emails: string[];
+  matchCommitter: boolean;
+  projects: NamePattern[];
+  repositories: NamePattern[];
+  // Only pushes to the default branch are mirrored when there are no branch patterns
+  branches: NamePattern[];
+  // Forced time zone of the fake commits, instead of the offset each commit was pushed with
+  timeZone?: string;
+  mirror: MirrorSettings;
+  weighting: WeightingSettings;
+  publish: PublishSettings;
+}
+
+// Outcome of a git.push event, sent back as the response
+interface PushResult {
+  // Commits in the event, and the ones mirrored from it
+  commits: number;
+  mirrored: number;
+  published: boolean;
+}
+
+// Where the listener runs and how it is stopped
+interface ServeContext {
+  contributionsPath: string;
+  signal?: AbortSignal;
+  onListen?: (address: Deno.NetAddr) => void;
+}
+
+// Function to compare a secret in constant time, so response times do not give it away
+function secretsMatch(value: string, secret: string): boolean {
+  const encoder = new TextEncoder();
+  const a = encoder.encode(value);
+  const b = encoder.encode(secret);
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+// Function to check the shared secret header, or the password of basic authentication
+function isAuthorized(request: Request, secret: string): boolean {
+  const header = request.headers.get(SECRET_HEADER);
+  if (header !== null) {
+    return secretsMatch(header, secret);
+  }
+
+  const basic = request.headers.get("authorization")?.match(/^Basic\s+(\S+)$/i);
+  if (!basic) {
+    return false;
+  }
+  try {
+    const credentials = atob(basic[1]);
+    return secretsMatch(credentials.substring(credentials.indexOf(":") + 1), secret);
+  } catch {
+    return false;
+  }
+}
+
+// Function to turn the commits of a git.push event into the activities of the given identities, oldest first.
+// A push can update several branches; its commits are attributed to the first one that is mirrored.
+export function pushActivities(payload: any, settings: Omit<WebhookSettings, "secret" | "timeZone" | "mirror" | "weighting" | "publish">): Activity[] {
+  const repository = payload.resource?.repository ?? {};
+  const project = repository.project?.name ?? "";
+  if (
+    !matchesPatterns(settings.projects, project) ||
+    !matchesPatterns(settings.repositories, repository.name, `${project}/${repository.name}`)
+  ) {
+    return [];
+  }
+
+  const defaultBranch = repository.defaultBranch?.replace(/^refs\/heads\//, "");
+  const branch = (payload.resource?.refUpdates ?? [])
+    .map((refUpdate: any) => refUpdate.name)
+    .filter((name: unknown): name is string => typeof name === "string" && name.startsWith("refs/heads/"))
+    .map((name: string) => name.replace(/^refs\/heads\//, ""))
+    .find((branch: string) =>
+      settings.branches.length > 0 ? matchesPatterns(settings.branches, branch) : branch === defaultBranch
+    );
+  if (!branch) {
+    return [];
+  }
+
+  return (payload.resource?.commits ?? [])
+    .filter((commit: any) => matchesCommit(commit, settings.emails, settings.matchCommitter))
+    .map((commit: any) => commitActivity(commit, project, repository.name, branch))
+    .sort((a: Activity, b: Activity) => a.date.getTime() - b.date.getTime());
+}
+
+// Function to mirror the new commits of a git.push event, and publish them when configured to
+async function handlePush(payload: any, gitOps: GitOperations, ledger: SyncLedger, settings: WebhookSettings): Promise<PushResult> {
+  const commits = payload.resource?.commits?.length ?? 0;
+  const location = `${payload.resource?.repository?.project?.name}/${payload.resource?.repository?.name}`;
+
+  // Reloaded for every event, as a scheduled sync may have mirrored the commits meanwhile
+  await ledger.load(gitOps);
+  const activities = applyTimeZone(
+    pushActivities(payload, settings).filter(activity => !ledger.has(activity.id)),
+    settings.timeZone,
+  );
+  if (activities.length === 0) {
+    log.info(colors.gray(`No new commits of yours in the push to ${location}`));
+    return { commits, mirrored: 0, published: false };
+  }
+
+  const existingDates = settings.weighting.weighting === "daily-cap" ? await gitOps.getCommitDates() : [];
+  const plan = planCommits(activities, settings.weighting, existingDates);
+  await mirrorActivities(gitOps, ledger, plan, settings.mirror);
+  log.info(colors.green(`Mirrored ${activities.length} commits pushed to ${location} (${activities[0].branch})`));
+
+  const published = settings.publish.push && !!settings.publish.remoteUrl &&
+    await publishContributions(gitOps, settings.publish, false);
+  return { commits, mirrored: activities.length, published };
+}
+
+// Function to create the request handler for Service Hook events. Events are handled one at a time,
+// as they all write to the same contributions repository.
+export function createWebhookHandler(
+  gitOps: GitOperations,
+  ledger: SyncLedger,
+  settings: WebhookSettings,
+): (request: Request) => Promise<Response> {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return async (request) => {
+    if (new URL(request.url).pathname !== WEBHOOK_PATH) {
+      return new Response("Not found", { status: 404 });
+    }
+    if (request.method !== "POST") {
+      return new Response("Method not allowed", { status: 405, headers: { allow: "POST" } });
+    }
+    if (!isAuthorized(request, settings.secret)) {
+      log.warn(colors.yellow("Rejected a Service Hook event without the shared secret"));
+      return new Response("Unauthorized", { status: 401, headers: { "www-authenticate": 'Basic realm="csync-azd"' } });
+    }
+
+    let payload: any;
+    try {
+      payload = await request.json();
+    } catch {
+      return new Response("Invalid JSON", { status: 400 });
+    }
+
+    // Other events are acknowledged, so Azure DevOps does not disable the subscription
+    if (payload?.eventType !== "git.push") {
+      log.debug(`Ignoring Service Hook event ${payload?.eventType}`);
+      return Response.json({ ignored: payload?.eventType ?? null });
+    }
+
+    const handled = queue.then(() => handlePush(payload, gitOps, ledger, settings));
+    queue = handled.catch(() => {});
+    try {
+      return Response.json(await handled);
+    } catch (error: any) {
+      log.error(colors.red(`Failed to mirror the pushed commits: ${error.message}`));
+      return new Response(`Failed to mirror the pushed commits: ${error.message}`, { status: 500 });
+    }
+  };
+}
+
+// Function to listen for git.push Service Hook events of one organization and mirror the pushed commits
+// as they arrive, until the signal aborts. Settings come from the options and the saved configuration.
+export async function serveOrganization(organization: string, options: SyncOptions, context: ServeContext): Promise<ExitCode> {
+  const secretEnv = options.secretEnv ?? DEFAULT_SECRET_ENV;
+  const secret = Deno.env.get(secretEnv);
+  if (!secret) {
+    log.error(colors.red(`No webhook secret found. Set ${secretEnv}, so only your Service Hooks are accepted.`));
+    return ExitCode.InvalidUsage;
+  }
+
+  const existingConfig = await readConfig(organization);
+
+  const emails = options.emails ?? existingConfig?.emails ?? [];
+  if (emails.length === 0) {
+    log.error(colors.red("No email addresses given. Pass --emails or sync the organization once to save them."));
+    return ExitCode.InvalidUsage;
+  }
+
+  const gitOps = new GitOperations(context.contributionsPath, organization, {
+    name: options.commitName ?? existingConfig?.commitName,
+    email: options.commitEmail ?? existingConfig?.commitEmail,
+  });
+  const publish: PublishSettings = {
+    remoteUrl: options.remote ?? existingConfig?.remoteUrl,
+    branch: options.branch ?? existingConfig?.remoteBranch,
+    push: options.push ?? existingConfig?.push ?? false,
+    dryRun: false,
+  };
+  const ledger = new SyncLedger(context.contributionsPath);
+
+  try {
+    await gitOps.initRepo();
+    if (publish.remoteUrl) {
+      await gitOps.setRemote(publish.remoteUrl);
+    }
+    await ledger.load(gitOps);
+  } catch (error: any) {
+    log.error(colors.red(`Failed to prepare the contributions repository: ${error.message}`));
+    return ExitCode.Failure;
+  }
+
+  const handler = createWebhookHandler(gitOps, ledger, {
+    secret,
+    emails,
+    matchCommitter: options.matchCommitter ?? existingConfig?.matchCommitter ?? false,
+    projects: parsePatterns(options.projects ?? existingConfig?.projects ?? []),
+    repositories: parsePatterns(options.repos ?? existingConfig?.repositories ?? []),
+    branches: parsePatterns(options.branches ?? existingConfig?.branches ?? []),
+    timeZone: existingConfig?.timeZone,
+    mirror: {
+      organization,
+      privacy: existingConfig?.privacy ?? {},
+      templates: { message: existingConfig?.messageTemplate, content: existingConfig?.contentTemplate },
+      changeSize: existingConfig?.changeSize,
+    },
+    weighting: {
+      weighting: existingConfig?.weighting ?? "per-commit",
+      dailyCap: existingConfig?.dailyCap ?? DEFAULT_DAILY_CAP,
+    },
+    publish,
+  });
+
+  let server: Deno.HttpServer<Deno.NetAddr>;
+  try {
+    server = Deno.serve({
+      hostname: options.hostname ?? DEFAULT_WEBHOOK_HOSTNAME,
+      port: options.port ?? DEFAULT_WEBHOOK_PORT,
+      signal: context.signal,
+      onListen: (address) => {
+        log.info(colors.green(
+          `Listening for Service Hooks of ${organization} on http://${address.hostname}:${address.port}${WEBHOOK_PATH}`,
+        ));
+        context.onListen?.(address);
+      },
+    }, handler);
+  } catch (error: any) {
+    log.error(colors.red(`Failed to start the webhook listener: ${error.message}`));
+    return ExitCode.Failure;
+  }
+
+  await server.finished;
+  log.info(colors.yellow("Stopped listening for Service Hooks"));
+  return ExitCode.Success;
+}
@@ -0,0 +1,881 @@
+import {Confirm, Input, Secret, Select} from "@cliffy/prompt";
+import * as colors from "@std/fmt/colors";
+import {type ActivityKind, DEFAULT_ACTIVITY_KINDS, getOrganizationKey, migrateActivityId} from "./activities.ts";
+import {AzureDevOpsClient} from "./azure_devops.ts";
+import {type CheckpointSearch, SyncCheckpoint} from "./checkpoint.ts";
+import {checkSettings, type Config, DEFAULT_CONCURRENCY, DEFAULT_LOOKBACK_DAYS, getConfigFilePath, readConfig, writeConfig} from "./config.ts";
+import {type CredentialStore, CredentialVault, resolveCredential} from "./credentials.ts";
+import {parsePatterns} from "./filters.ts";
+import {GitOperations} from "./git.ts";
+import {buildHeatmap, printHeatmap, writeHeatmap} from "./heatmap.ts";
+import {SyncLedger} from "./ledger.ts";
+import {createSpinner, log} from "./logger.ts";
+import {mirrorActivities} from "./mirror.ts";
+import type {NameVisibility, PrivacySettings} from "./privacy.ts";
+import {publishContributions, type PublishSettings} from "./publish.ts";
+import {findOrphans, printOrphans, type ReconcilePlan, removeOrphans} from "./reconcile.ts";
+import {buildReport, printReport, writeReport} from "./report.ts";
+import {type RunItem, searchActivities, type SearchResult} from "./search.ts";
+import {validateTemplate} from "./templates.ts";
+import {applyTimeZone, validateTimeZone, type ZonedDate} from "./timezone.ts";
+import {DEFAULT_DAILY_CAP, planCommits, type Weighting, type WeightingSettings} from "./weighting.ts";
+
+// Process exit codes, so scheduled runs can tell failures apart
+export enum ExitCode {
+  Success = 0,
+  Failure = 1,
+  InvalidUsage = 2,
+  ConnectionFailed = 3,
+  PushFailed = 4,
+  // The sync finished, but some projects or repositories could not be searched
+  PartialFailure = 5,
+}
+
+// Options from the command line and environment variables
+export interface SyncOptions {
+  org?: string;
+  orgs?: string[];
+  allOrgs?: boolean;
+  combined?: boolean;
+  emails?: string[];
+  matchCommitter?: boolean;
+  tokenEnv: string;
+  outputDir?: string;
+  since?: Date;
+  until?: Date;
+  lookbackDays?: number;
+  tokenStore?: CredentialStore;
+  tokenFile?: string;
+  vaultPassphraseEnv: string;
+  projects?: string[];
+  repos?: string[];
+  skipForks?: boolean;
+  branches?: string[];
+  concurrency?: number;
+  requestTimeout?: number;
+  baseUrl?: string;
+  apiVersion?: string;
+  caCert?: string;
+  proxy?: string;
+  activities?: ActivityKind[];
+  names?: NameVisibility;
+  messages?: boolean;
+  authors?: boolean;
+  redact?: string[];
+  messageTemplate?: string;
+  contentTemplate?: string;
+  weighting?: Weighting;
+  dailyCap?: number;
+  changeSize?: boolean;
+  // Time zone all fake commits are written in, instead of the offset of each original
+  timezone?: string;
+  remote?: string;
+  branch?: string;
+  push?: boolean;
+  pushDryRun?: boolean;
+  commitName?: string;
+  commitEmail?: string;
+  dryRun?: boolean;
+  resume?: boolean;
+  // Remove fake commits whose originals vanished instead of searching for new contributions
+  reconcile?: boolean;
+  // Webhook listener of the serve command
+  port?: number;
+  hostname?: string;
+  secretEnv?: string;
+  report?: string;
+  heatmap?: boolean;
+  heatmapFile?: string;
+  verbose?: boolean;
+  quiet?: boolean;
+  logFile?: string;
+  yes?: boolean;
+}
+
+// Function to parse a comma-separated list of email addresses
+function parseEmails(value: string): string[] {
+  return value.split(",").map(e => e.trim());
+}
+
+// Function to validate a comma-separated list of email addresses
+function validateEmails(value: string): true | string {
+  const emails = parseEmails(value);
+  if (emails.length === 0 || emails.some(e => !e)) {
+    return "Please enter at least one valid email address";
+  }
+  return true;
+}
+
+// Outcome of syncing a single organization, collected for the run summary
+export interface SyncResult {
+  organization: string;
+  exitCode: ExitCode;
+  // New and already mirrored contributions, or orphaned fake commits when reconciling
+  found: number;
+  duplicates: number;
+  // Repositories searched without errors
+  succeeded: string[];
+  failed: RunItem[];
+  skipped: RunItem[];
+  message?: string;
+}
+
+// Settings shared by every organization synced in one run
+interface SyncContext {
+  vault: CredentialVault;
+  interactive: boolean;
+  contributionsPath: string;
+  reportPath?: string;
+  heatmapPath?: string;
+}
+
+// Function to print the outcome of every organization synced in one run, and record it in the log file
+export function printRunSummary(results: SyncResult[]): void {
+  log.record("Run summary", { results });
+
+  const width = Math.max("Organization".length, ...results.map(result => result.organization.length));
+  log.info(colors.bold(
+    `\n${"Organization".padEnd(width)}  ${"new".padStart(6)}  ${"duplicate".padStart(9)}  ` +
+    `${"searched".padStart(8)}  ${"failed".padStart(6)}  ${"skipped".padStart(7)}  Result`,
+  ));
+
+  for (const result of results) {
+    const outcome = result.exitCode === ExitCode.Success
+      ? colors.green("synced")
+      : colors.red(result.message ?? "failed");
+    log.info(
+      `${result.organization.padEnd(width)}  ${String(result.found).padStart(6)}  ` +
+      `${colors.gray(String(result.duplicates).padStart(9))}  ${String(result.succeeded.length).padStart(8)}  ` +
+      `${String(result.failed.length).padStart(6)}  ${String(result.skipped.length).padStart(7)}  ${outcome}`,
+    );
+  }
+
+  const failures = results.flatMap(result =>
+    result.failed.map(item => ({ ...item, name: `${result.organization}: ${item.name}` }))
+  );
+  if (failures.length > 0) {
+    log.error(colors.bold(colors.red("\nFailures:")));
+    for (const failure of failures) {
+      log.error(colors.red(`  ${failure.name} - ${failure.reason}`));
+    }
+  }
+
+  const skipped = results.flatMap(result =>
+    result.skipped.map(item => ({ ...item, name: `${result.organization}: ${item.name}` }))
+  );
+  if (skipped.length > 0) {
+    log.info(colors.bold("\nSkipped:"));
+    for (const item of skipped) {
+      log.info(colors.gray(`  ${item.name} - ${item.reason}`));
+    }
+  }
+
+  const synced = results.filter(result => result.exitCode === ExitCode.Success).length;
+  const summary = `\n${synced} of ${results.length} organizations synced`;
+  log.info(colors.bold(synced === results.length ? colors.green(summary) : colors.yellow(summary)));
+}
+
+// Function to pick the exit code of a batch run: the shared failure code, or a generic failure if they differ
+export function getBatchExitCode(results: SyncResult[]): ExitCode {
+  const failureCodes = new Set(
+    results.map(result => result.exitCode).filter(code => code !== ExitCode.Success),
+  );
+  if (failureCodes.size === 0) {
+    return ExitCode.Success;
+  }
+  return failureCodes.size === 1 ? [...failureCodes][0] : ExitCode.Failure;
+}
+
+// Function to sync the contributions of a single organization, returning the outcome instead of exiting
+export async function syncOrganization(organization: string, options: SyncOptions, context: SyncContext): Promise<SyncResult> {
+  const { vault, interactive, contributionsPath } = context;
+
+  let token: string;
+  let emails: string[];
+  let existingConfig = await readConfig(organization);
+  let found = 0;
+  let duplicates = 0;
+  const selectedItems: string[] = [];
+  const failedItems: RunItem[] = [];
+  const skippedItems: RunItem[] = [];
+
+  const result = (exitCode: ExitCode, message?: string): SyncResult => {
+    // Anything that could not be searched fails the run, even if everything else was synced
+    if (exitCode === ExitCode.Success && failedItems.length > 0) {
+      exitCode = ExitCode.PartialFailure;
+      message = `${failedItems.length} projects or repositories failed`;
+    }
+
+    const failedNames = new Set(failedItems.map(item => item.name));
+    return {
+      organization,
+      exitCode,
+      found,
+      duplicates,
+      succeeded: selectedItems.filter(name => !failedNames.has(name) && !failedNames.has(name.split("/")[0])),
+      failed: failedItems,
+      skipped: skippedItems,
+      message,
+    };
+  };
+
+  // Step 2: Azure DevOps Authentication
+  // Move plaintext tokens of older config files into the vault, unless this is a dry run
+  if (existingConfig?.token && !existingConfig.credential) {
+    log.info(colors.yellow(`Found a plaintext Personal Access Token in ${getConfigFilePath()}`));
+    if (options.dryRun) {
+      log.info(colors.yellow("Dry run: the token would be moved into the encrypted credential vault."));
+    } else {
+      try {
+        await vault.set(organization, existingConfig.token);
+        const { token: _token, ...migratedConfig } = existingConfig;
+        existingConfig = { ...migratedConfig, credential: { store: "vault", key: organization } };
+        await writeConfig(existingConfig);
+        log.info(colors.green("Moved the Personal Access Token into the encrypted credential vault"));
+      } catch (error: any) {
+        log.warn(colors.yellow(`Warning: Failed to move the token into the credential vault: ${error.message}`));
+      }
+    }
+  }
+
+  let credential = existingConfig?.credential;
+  let savedToken = existingConfig?.token ?? null;
+  if (credential) {
+    try {
+      savedToken = await resolveCredential(credential, vault);
+    } catch (error: any) {
+      log.warn(colors.yellow(`Warning: Failed to read saved Personal Access Token: ${error.message}`));
+    }
+  }
+
+  const envToken = Deno.env.get(options.tokenEnv);
+  let enteredToken = false;
+
+  // Tokens from the environment or a file are only used for this run; the saved reference changes with --token-store
+  if (envToken) {
+    log.info(colors.yellow(`Using Personal Access Token from ${options.tokenEnv}`));
+    token = envToken;
+  } else if (options.tokenFile) {
+    log.info(colors.yellow(`Using Personal Access Token from ${options.tokenFile}`));
+    token = (await Deno.readTextFile(options.tokenFile)).trim();
+  } else if (savedToken) {
+    log.info(colors.yellow(`Found saved Personal Access Token for organization: ${organization}`));
+    const useExisting = !interactive || await Confirm.prompt({
+      message: "Use saved Personal Access Token?",
+      default: true,
+    });
+
+    if (useExisting) {
+      token = savedToken;
+    } else {
+      token = await Secret.prompt({
+        message: "Enter your Azure DevOps Personal Access Token (PAT):",
+        validate: (value) => value.trim() ? true : "PAT cannot be empty",
+      });
+      enteredToken = true;
+    }
+  } else if (!interactive) {
+    log.error(colors.red(`No Personal Access Token found. Set ${options.tokenEnv} or save one interactively first.`));
+    return result(ExitCode.InvalidUsage, "No Personal Access Token found");
+  } else {
+    token = await Secret.prompt({
+      message: "Enter your Azure DevOps Personal Access Token (PAT):",
+      validate: (value) => value.trim() ? true : "PAT cannot be empty",
+    });
+    enteredToken = true;
+  }
+
+  // Test connection
+  const spinner = createSpinner("Testing connection to Azure DevOps...").start();
+
+  // Custom CA certificates and proxies need their own HTTP client
+  const caCertFile = options.caCert ?? existingConfig?.caCertFile;
+  const proxy = options.proxy ?? existingConfig?.proxy;
+  let httpClient: Deno.HttpClient | undefined;
+
+  if (caCertFile || proxy) {
+    try {
+      httpClient = Deno.createHttpClient({
+        caCerts: caCertFile ? [await Deno.readTextFile(caCertFile)] : undefined,
+        proxy: proxy ? { url: proxy } : undefined,
+      });
+    } catch (error: any) {
+      spinner.fail(`Failed to set up the HTTP client: ${error.message}`);
+      return result(ExitCode.InvalidUsage, `Failed to set up the HTTP client: ${error.message}`);
+    }
+  }
+
+  const concurrency = options.concurrency ?? existingConfig?.concurrency ?? DEFAULT_CONCURRENCY;
+  const azureClient = new AzureDevOpsClient(organization, token, {
+    baseUrl: options.baseUrl ?? existingConfig?.baseUrl,
+    apiVersion: options.apiVersion ?? existingConfig?.apiVersion,
+    httpClient,
+    timeoutSeconds: options.requestTimeout ?? existingConfig?.requestTimeoutSeconds,
+    onRetry: (message) => {
+      spinner.clear();
+      log.warn(colors.yellow(message));
+    },
+    onRequest: (method, url) => {
+      if (log.isEnabled("debug")) {
+        spinner.clear();
+        log.debug(`${method} ${url}`);
+      }
+    },
+  });
+
+  try {
+    await azureClient.getProjects();
+    spinner.succeed("Successfully connected to Azure DevOps");
+  } catch (error: any) {
+    spinner.fail(`Failed to connect to Azure DevOps: ${error.message}`);
+    return result(ExitCode.ConnectionFailed, `Failed to connect: ${error.message}`);
+  }
+
+  // Step 3: Get email addresses, suggesting the ones Azure DevOps knows for the token owner
+  let discoveredEmails: string[] = [];
+  try {
+    const identity = await azureClient.getIdentity();
+    discoveredEmails = identity.emails;
+
+    if (identity.displayName) {
+      const aliases = identity.aliases.length > 0 ? ` (also known as ${identity.aliases.join(", ")})` : "";
+      log.info(colors.yellow(`Signed in as ${identity.displayName}${aliases}`));
+    }
+  } catch (error: any) {
+    log.warn(colors.yellow(`Warning: Failed to look up your Azure DevOps identity: ${error.message}`));
+  }
+
+  const promptForEmails = async () => parseEmails(await Input.prompt({
+    message: "Enter email address(es) to search for (comma-separated for multiple):",
+    default: discoveredEmails.length > 0 ? discoveredEmails.join(", ") : undefined,
+    validate: validateEmails,
+  }));
+
+  if (options.emails && options.emails.length > 0) {
+    emails = options.emails;
+  } else if (existingConfig?.emails && existingConfig.emails.length > 0) {
+    log.info(colors.yellow(`Found saved email addresses for ${organization}: ${existingConfig.emails.join(", ")}`));
+    const useExisting = !interactive || await Confirm.prompt({
+      message: "Use these email addresses?",
+      default: true,
+    });
+
+    emails = useExisting ? existingConfig.emails : await promptForEmails();
+  } else if (!interactive) {
+    if (discoveredEmails.length === 0) {
+      log.error(colors.red("No email addresses given. Pass --emails or set CSYNC_AZD_EMAILS."));
+      return result(ExitCode.InvalidUsage, "No email addresses given");
+    }
+    log.info(colors.yellow(`Using the email addresses of your Azure DevOps account: ${discoveredEmails.join(", ")}`));
+    emails = discoveredEmails;
+  } else {
+    emails = await promptForEmails();
+  }
+
+  // Commits made under a forgotten address are easily missed, so point out the ones not searched for
+  const missingEmails = discoveredEmails.filter(discovered =>
+    !emails.some(email => email.toLowerCase() === discovered.toLowerCase())
+  );
+  if (missingEmails.length > 0) {
+    log.info(colors.yellow(`Your Azure DevOps account also uses: ${missingEmails.join(", ")}`));
+    const addMissing = interactive && await Confirm.prompt({
+      message: "Search for these email addresses too?",
+      default: true,
+    });
+
+    if (addMissing) {
+      emails = [...emails, ...missingEmails];
+    }
+  }
+
+  // Remember where the token is kept; it only ends up on disk inside the encrypted vault
+  // A dry run writes nothing, not even the configuration
+  let tokenStore = options.dryRun ? undefined : options.tokenStore;
+  if (!tokenStore && enteredToken && !options.dryRun) {
+    tokenStore = await Select.prompt({
+      message: "Where should the Personal Access Token be saved?",
+      options: [
+        { name: "Encrypted credential vault", value: "vault" },
+        { name: "Do not save it, ask every time", value: "none" },
+      ],
+      default: existingConfig?.credential?.store === "none" ? "none" : "vault",
+    }) as CredentialStore;
+  }
+
+  try {
+    switch (tokenStore) {
+      case "vault":
+        await vault.set(organization, token);
+        credential = { store: "vault", key: organization };
+        break;
+      case "env":
+        credential = { store: "env", variable: options.tokenEnv };
+        break;
+      case "file":
+        if (!options.tokenFile) {
+          log.error(colors.red("Saving the token reference as a file needs --token-file."));
+          return result(ExitCode.InvalidUsage, "Saving the token reference as a file needs --token-file");
+        }
+        credential = { store: "file", path: options.tokenFile };
+        break;
+      case "none":
+        credential = { store: "none" };
+        break;
+    }
+  } catch (error: any) {
+    log.error(colors.red(`Failed to save the Personal Access Token: ${error.message}`));
+    return result(ExitCode.Failure, `Failed to save the Personal Access Token: ${error.message}`);
+  }
+
+  // Privacy settings and templates are checked before anything is saved or fetched
+  const privacy: PrivacySettings = {
+    names: options.names ?? existingConfig?.privacy?.names,
+    includeMessages: options.messages ?? existingConfig?.privacy?.includeMessages,
+    includeAuthors: options.authors ?? existingConfig?.privacy?.includeAuthors,
+    redact: options.redact ?? existingConfig?.privacy?.redact,
+  };
+  const messageTemplate = options.messageTemplate ?? existingConfig?.messageTemplate;
+  const contentTemplate = options.contentTemplate ?? existingConfig?.contentTemplate;
+
+  for (const pattern of privacy.redact ?? []) {
+    try {
+      new RegExp(pattern);
+    } catch (error: any) {
+      log.error(colors.red(`Invalid redaction pattern: ${error.message}`));
+      return result(ExitCode.InvalidUsage, `Invalid redaction pattern: ${error.message}`);
+    }
+  }
+
+  for (const template of [messageTemplate, contentTemplate]) {
+    const valid = template === undefined || validateTemplate(template);
+    if (valid !== true) {
+      log.error(colors.red(`Invalid template "${template}": ${valid}`));
+      return result(ExitCode.InvalidUsage, `Invalid template: ${valid}`);
+    }
+  }
+
+  const weighting: WeightingSettings = {
+    weighting: options.weighting ?? existingConfig?.weighting ?? "per-commit",
+    dailyCap: options.dailyCap ?? existingConfig?.dailyCap ?? DEFAULT_DAILY_CAP,
+  };
+  const changeSize = options.changeSize ?? existingConfig?.changeSize ?? false;
+  const timeZone = options.timezone ?? existingConfig?.timeZone;
+  const validTimeZone = timeZone === undefined || validateTimeZone(timeZone);
+  if (validTimeZone !== true) {
+    log.error(colors.red(validTimeZone));
+    return result(ExitCode.InvalidUsage, validTimeZone);
+  }
+
+  if (weighting.dailyCap < 1) {
+    log.error(colors.red("The daily cap must be at least 1"));
+    return result(ExitCode.InvalidUsage, "The daily cap must be at least 1");
+  }
+
+  const newConfig: Config = {
+    organization,
+    credential,
+    // Only kept when moving it into the vault failed, so it is not lost
+    token: credential ? undefined : existingConfig?.token,
+    emails,
+    matchCommitter: options.matchCommitter ?? existingConfig?.matchCommitter,
+    lookbackDays: options.lookbackDays ?? existingConfig?.lookbackDays,
+    projects: options.projects ?? existingConfig?.projects,
+    repositories: options.repos ?? existingConfig?.repositories,
+    skipForks: options.skipForks ?? existingConfig?.skipForks,
+    branches: options.branches ?? existingConfig?.branches,
+    concurrency: options.concurrency ?? existingConfig?.concurrency,
+    requestTimeoutSeconds: options.requestTimeout ?? existingConfig?.requestTimeoutSeconds,
+    baseUrl: options.baseUrl ?? existingConfig?.baseUrl,
+    apiVersion: options.apiVersion ?? existingConfig?.apiVersion,
+    caCertFile,
+    proxy,
+    activities: options.activities ?? existingConfig?.activities,
+    privacy,
+    messageTemplate,
+    contentTemplate,
+    weighting: options.weighting ?? existingConfig?.weighting,
+    dailyCap: options.dailyCap ?? existingConfig?.dailyCap,
+    changeSize: options.changeSize ?? existingConfig?.changeSize,
+    timeZone,
+    remoteUrl: options.remote ?? existingConfig?.remoteUrl,
+    remoteBranch: options.branch ?? existingConfig?.remoteBranch,
+    push: options.push ?? existingConfig?.push,
+    commitName: options.commitName ?? existingConfig?.commitName,
+    commitEmail: options.commitEmail ?? existingConfig?.commitEmail,
+  };
+
+  // Values the config file would reject are refused up front, like "config set" does
+  const validSettings = checkSettings(newConfig);
+  if (validSettings !== true) {
+    log.error(colors.red(validSettings));
+    return result(ExitCode.InvalidUsage, validSettings);
+  }
+
+  // Save the configuration to organization-specific file, unless this is a dry run
+  if (!options.dryRun) {
+    await writeConfig(newConfig);
+  }
+
+  log.info(colors.green(`Searching for commits by: ${emails.join(", ")}`));
+
+  // Step 4: Prepare the contributions folder and git repository
+  const gitOps = new GitOperations(contributionsPath, organization, {
+    name: options.commitName ?? existingConfig?.commitName,
+    email: options.commitEmail ?? existingConfig?.commitEmail,
+  });
+
+  const publishSettings: PublishSettings = {
+    remoteUrl: options.remote ?? existingConfig?.remoteUrl,
+    branch: options.branch ?? existingConfig?.remoteBranch,
+    push: options.push ?? existingConfig?.push ?? false,
+    dryRun: options.pushDryRun ?? false,
+  };
+
+  if (options.dryRun) {
+    log.info(colors.yellow("Dry run: nothing will be written to the contributions repository."));
+  } else {
+    spinner.text = "Preparing contributions repository...";
+    spinner.start();
+
+    try {
+      await gitOps.initRepo();
+      if (publishSettings.remoteUrl) {
+        await gitOps.setRemote(publishSettings.remoteUrl);
+      }
+      spinner.succeed("Contributions repository ready");
+    } catch (error: any) {
+      spinner.fail(`Failed to prepare git repository: ${error.message}`);
+      return result(ExitCode.Failure, `Failed to prepare git repository: ${error.message}`);
+    }
+  }
+
+  // Load the ledger of commits mirrored by previous runs
+  const ledger = new SyncLedger(contributionsPath);
+
+  try {
+    await ledger.load(gitOps, !options.dryRun);
+    // IDs of older versions held the organization name, which the fake commits must not give away
+    const organizationKey = await getOrganizationKey(organization);
+    await ledger.migrate(id => migrateActivityId(id, organization, organizationKey), !options.dryRun);
+  } catch (error: any) {
+    log.error(colors.red(`Failed to read the sync ledger: ${error.message}`));
+    return result(ExitCode.Failure, `Failed to read the sync ledger: ${error.message}`);
+  }
+
+  // Get the last commit date if the file exists
+  const lastCommitDate = await gitOps.getLastCommitDate();
+  if (lastCommitDate) {
+    log.info(colors.yellow(`Found existing foo.txt with last commit date: ${lastCommitDate.toLocaleString()}`));
+  }
+  if (ledger.size > 0) {
+    log.info(colors.yellow(`${ledger.size} commits were already mirrored and will be skipped.`));
+  }
+
+  // A checkpoint is left behind by an interrupted run, which may have written commits it did not record yet
+  const checkpoint = new SyncCheckpoint(contributionsPath, organization);
+  if (!options.dryRun) {
+    try {
+      await checkpoint.load();
+    } catch (error: any) {
+      log.warn(colors.yellow(`Warning: Ignoring the checkpoint of an interrupted sync: ${error.message}`));
+    }
+  }
+
+  if (checkpoint.exists) {
+    try {
+      const recovered = await ledger.reconcile(gitOps);
+      if (recovered > 0) {
+        log.info(colors.yellow(`Recorded ${recovered} commits written by the interrupted sync in the sync ledger.`));
+      }
+    } catch (error: any) {
+      log.error(colors.red(`Failed to update the sync ledger: ${error.message}`));
+      return result(ExitCode.Failure, `Failed to update the sync ledger: ${error.message}`);
+    }
+  }
+
+  const activityKinds = options.activities ?? existingConfig?.activities ?? DEFAULT_ACTIVITY_KINDS;
+  const checkpointSearch: CheckpointSearch = {
+    emails,
+    activityKinds,
+    matchCommitter: options.matchCommitter ?? existingConfig?.matchCommitter ?? false,
+    projects: options.projects ?? existingConfig?.projects ?? [],
+    repositories: options.repos ?? existingConfig?.repositories ?? [],
+    branches: options.branches ?? existingConfig?.branches ?? [],
+    skipForks: options.skipForks ?? existingConfig?.skipForks ?? false,
+  };
+
+  // Reconciling compares the whole history with Azure DevOps instead of searching for new contributions
+  if (options.reconcile) {
+    let plan: ReconcilePlan;
+    try {
+      plan = await findOrphans(azureClient, gitOps, ledger, {
+        organization,
+        emails,
+        matchCommitter: checkpointSearch.matchCommitter,
+        projects: parsePatterns(checkpointSearch.projects),
+        repositories: parsePatterns(checkpointSearch.repositories),
+        branches: parsePatterns(checkpointSearch.branches),
+        skipForks: checkpointSearch.skipForks,
+        concurrency,
+      }, spinner);
+    } catch (error: any) {
+      spinner.fail(`Failed to compare the contributions repository with Azure DevOps: ${error.message}`);
+      return result(ExitCode.Failure, `Failed to reconcile: ${error.message}`);
+    }
+
+    selectedItems.push(...plan.repositories);
+    failedItems.push(...plan.failed);
+    skippedItems.push(...plan.skipped);
+    found = plan.orphans.length;
+    printOrphans(plan);
+
+    // Originals in projects or repositories that could not be searched would look vanished
+    if (plan.failed.length > 0) {
+      log.error(colors.red("\nSome projects or repositories could not be searched, so no fake commits are removed."));
+      return result(ExitCode.Success);
+    }
+    if (plan.orphans.length === 0) {
+      log.info(colors.green(`\nThe originals of all ${plan.checked} fake commits still exist.`));
+      return result(ExitCode.Success);
+    }
+    if (options.dryRun) {
+      return result(ExitCode.Success);
+    }
+
+    const remove = interactive
+      ? await Confirm.prompt({
+        message: `Rebuild the history of the contributions repository without these ${plan.orphans.length} fake commits?`,
+        default: false,
+      })
+      : options.yes ?? false;
+    if (!remove) {
+      log.info(colors.yellow("\nNo fake commits were removed. Pass --yes to remove them without asking."));
+      return result(ExitCode.Success);
+    }
+
+    const removeSpinner = createSpinner(`Removing ${plan.orphans.length} fake commits...`).start();
+    try {
+      await removeOrphans(gitOps, ledger, plan);
+    } catch (error: any) {
+      removeSpinner.fail(`Failed to remove fake commits: ${error.message}`);
+      return result(ExitCode.Failure, `Failed to remove fake commits: ${error.message}`);
+    }
+    removeSpinner.succeed(`Removed ${plan.orphans.length} fake commits; the previous history is kept as refs/csync-azd/before-reconcile`);
+
+    // An interrupted sync found its activities before the rewrite, so it is not resumed
+    if (checkpoint.exists) {
+      await checkpoint.clear().catch((error: any) => {
+        log.warn(colors.yellow(`Warning: Failed to remove the checkpoint: ${error.message}`));
+      });
+    }
+
+    if (publishSettings.remoteUrl) {
+      log.info(colors.yellow("The remote still has the previous history. Replace it with: git push --force-with-lease"));
+    }
+    return result(ExitCode.Success);
+  }
+
+  // Resuming searches the date range of the interrupted run, unless another one is given explicitly
+  const checkpointRange = checkpoint.dateRange;
+  let resume = false;
+  if (checkpointRange) {
+    const sameRange = (!options.since || options.since.getTime() === checkpointRange.fromDate.getTime()) &&
+      (!options.until || options.until.getTime() === checkpointRange.toDate?.getTime());
+
+    if (!sameRange || !checkpoint.matches(organization, checkpointSearch)) {
+      log.info(colors.yellow("Found a checkpoint of an interrupted sync with different settings; starting over."));
+    } else {
+      log.info(colors.yellow(
+        `Found a checkpoint of an interrupted sync from ${checkpoint.updatedAt!.toLocaleString()} ` +
+        `(${checkpoint.completedSteps} repositories and projects searched)`,
+      ));
+      resume = options.resume ?? (!interactive || await Confirm.prompt({
+        message: "Resume the interrupted sync?",
+        default: true,
+      }));
+    }
+  }
+
+  // Determine the date range to search, falling back to the configured lookback window
+  let fromDate: Date;
+  let toDate = options.until;
+  if (resume && checkpointRange) {
+    fromDate = checkpointRange.fromDate;
+    toDate = checkpointRange.toDate;
+  } else if (options.since) {
+    fromDate = options.since;
+  } else {
+    const lookbackDays = options.lookbackDays ?? existingConfig?.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+    fromDate = new Date();
+    fromDate.setDate(fromDate.getDate() - lookbackDays);
+  }
+
+  if (toDate && toDate < fromDate) {
+    log.error(colors.red(`The end of the date range (${toDate.toLocaleString()}) is before its start (${fromDate.toLocaleString()})`));
+    return result(ExitCode.InvalidUsage, "The end of the date range is before its start");
+  }
+
+  if (toDate) {
+    log.info(colors.yellow(`Looking for commits between ${fromDate.toLocaleString()} and ${toDate.toLocaleString()}`));
+  } else {
+    log.info(colors.yellow(`Looking for commits since ${fromDate.toLocaleString()}`));
+  }
+
+  // Every finished repository and project is checkpointed, so an interrupted search can be resumed
+  let searchCheckpoint: SyncCheckpoint | undefined;
+  if (!options.dryRun) {
+    try {
+      await checkpoint.begin(organization, checkpointSearch, fromDate, toDate, resume);
+      searchCheckpoint = checkpoint;
+    } catch (error: any) {
+      log.warn(colors.yellow(`Warning: Failed to save the checkpoint, an interrupted sync cannot be resumed: ${error.message}`));
+    }
+  }
+
+  // Step 5: Search projects and repositories for activities
+  let search: SearchResult;
+  try {
+    search = await searchActivities(azureClient, ledger, {
+      organization,
+      emails,
+      fromDate,
+      toDate,
+      activityKinds,
+      matchCommitter: checkpointSearch.matchCommitter,
+      projects: parsePatterns(checkpointSearch.projects),
+      repositories: parsePatterns(checkpointSearch.repositories),
+      branches: parsePatterns(checkpointSearch.branches),
+      skipForks: checkpointSearch.skipForks,
+      concurrency,
+    }, spinner, searchCheckpoint);
+  } catch (error: any) {
+    spinner.fail(`Failed to fetch projects: ${error.message}`);
+    return result(ExitCode.Failure, `Failed to fetch projects: ${error.message}`);
+  }
+
+  selectedItems.push(...search.repositories);
+  failedItems.push(...search.failed);
+  skippedItems.push(...search.skipped);
+
+  // Step 6: Report and mirror the activities found
+  const allActivities = applyTimeZone(search.activities, timeZone);
+  log.info(colors.blue(`\nFound a total of ${allActivities.length} new contributions across all repositories`));
+  if (search.duplicates.length > 0) {
+    log.info(colors.yellow(`Skipped ${search.duplicates.length} contributions that were already mirrored`));
+  }
+
+  found = allActivities.length;
+  duplicates = search.duplicates.length;
+
+  const report = buildReport(organization, allActivities, search.duplicates, {
+    fromDate,
+    toDate,
+    dryRun: options.dryRun ?? false,
+  });
+
+  if (options.dryRun) {
+    printReport(report);
+  }
+
+  if (context.reportPath) {
+    try {
+      await writeReport(report, context.reportPath);
+      log.info(colors.blue(`Report written to ${context.reportPath}`));
+    } catch (error: any) {
+      log.error(colors.red(`Failed to write report: ${error.message}`));
+      return result(ExitCode.Failure, `Failed to write report: ${error.message}`);
+    }
+  }
+
+  // Plan the fake commits; a daily cap and the contribution graph need the fake commits already written
+  const showHeatmap = options.heatmap || options.dryRun || context.heatmapPath;
+  let existingDates: ZonedDate[] = [];
+  if (showHeatmap || weighting.weighting === "daily-cap") {
+    try {
+      existingDates = await gitOps.getCommitDates();
+    } catch (error: any) {
+      log.error(colors.red(`Failed to read the contributions repository: ${error.message}`));
+      return result(ExitCode.Failure, `Failed to read the contributions repository: ${error.message}`);
+    }
+  }
+
+  const plan = planCommits(allActivities, weighting, existingDates);
+  if (plan.commits.length !== allActivities.length) {
+    log.info(colors.yellow(
+      `${allActivities.length} contributions become ${plan.commits.length} fake commits (${weighting.weighting} weighting)`,
+    ));
+  }
+
+  // Preview of the GitHub contribution graph, compared with what the contributions repository already shows
+  if (showHeatmap) {
+    try {
+      const addedDates = plan.commits.map(activities => activities[activities.length - 1]);
+      const heatmap = buildHeatmap(existingDates, addedDates);
+      if (options.heatmap || options.dryRun) {
+        printHeatmap(heatmap);
+      }
+      if (context.heatmapPath) {
+        await writeHeatmap(heatmap, organization, context.heatmapPath);
+        log.info(colors.blue(`Contribution graph written to ${context.heatmapPath}`));
+      }
+    } catch (error: any) {
+      log.error(colors.red(`Failed to write the contribution graph: ${error.message}`));
+      return result(ExitCode.Failure, `Failed to write the contribution graph: ${error.message}`);
+    }
+  }
+
+  if (options.dryRun) {
+    return result(ExitCode.Success);
+  }
+
+  // Everything found is mirrored below, and the ledger keeps track of it from then on
+  const clearCheckpoint = async () => {
+    try {
+      await checkpoint.clear();
+    } catch (error: any) {
+      log.warn(colors.yellow(`Warning: Failed to remove the checkpoint: ${error.message}`));
+    }
+  };
+
+  if (allActivities.length === 0) {
+    await clearCheckpoint();
+    log.info(colors.yellow("No new contributions found for the specified email addresses."));
+    const published = await publishContributions(gitOps, publishSettings, interactive);
+    return published ? result(ExitCode.Success) : result(ExitCode.PushFailed, "Failed to push the contributions repository");
+  }
+
+  // Process commits
+  log.info(colors.blue("\nProcessing commits and creating fake contributions..."));
+
+  const progressSpinner = createSpinner(`Processing commits (0/${plan.commits.length})`).start();
+
+  try {
+    await mirrorActivities(gitOps, ledger, plan, {
+      organization,
+      privacy,
+      templates: { message: messageTemplate, content: contentTemplate },
+      changeSize,
+    }, (written) => {
+      progressSpinner.text = `Processing commits (${written}/${plan.commits.length})`;
+    });
+  } catch (error: any) {
+    progressSpinner.fail(error.message);
+    return result(ExitCode.Failure, error.message);
+  }
+
+  progressSpinner.succeed(`Successfully processed all ${allActivities.length} commits`);
+  await clearCheckpoint();
+
+  if (failedItems.length > 0) {
+    log.warn(colors.bold(colors.yellow(`\n⚠️ Contribution sync completed, but ${failedItems.length} projects or repositories failed`)));
+  } else {
+    log.info(colors.bold(colors.green("\n✅ Contribution sync completed successfully!")));
+  }
+  log.info(colors.blue(`Your contributions have been synced to: ${contributionsPath}`));
+
+  if (!(await publishContributions(gitOps, publishSettings, interactive))) {
+    return result(ExitCode.PushFailed, "Failed to push the contributions repository");
+  }
+
+  return result(ExitCode.Success);
+}
@@ -0,0 +1,131 @@
+import type {Activity, ActivityKind} from "./activities.ts";
+import type {PendingCommit} from "./git.ts";
+import {formatZonedDate} from "./timezone.ts";
+
+// Fake commit message and file content, with {placeholder}s filled in from the activity
+export interface CommitTemplate {
+  message: string;
+  content: string;
+}
+
+// Built-in templates. Content lines whose placeholders are all empty are left out.
+const DEFAULT_TEMPLATES: Record<ActivityKind, CommitTemplate> = {
+  "commits": {
+    message: "fake commit (original: {shortReference} from {location})",
+    content: "Commit made on {date}\nOriginal commit: {reference}\nProject: {project}\nRepository: {repository}\nBranch: {branch}\nAuthor: {author}\nMessage: {title}",
+  },
+  "changesets": {
+    message: "fake changeset (original: {reference} in {location})",
+    content: "Changeset checked in on {date}\nOriginal activity: {id}\nProject: {project}\nAuthor: {author}\nComment: {title}",
+  },
+  "pr-created": {
+    message: "fake pull request (created: {reference} in {location})",
+    content: "Pull request created on {date}\nOriginal activity: {id}\nProject: {project}\nRepository: {repository}\nAuthor: {author}\nTitle: {title}",
+  },
+  "pr-completed": {
+    message: "fake pull request (completed: {reference} in {location})",
+    content: "Pull request completed on {date}\nOriginal activity: {id}\nProject: {project}\nRepository: {repository}\nAuthor: {author}\nTitle: {title}",
+  },
+  "pr-reviewed": {
+    message: "fake review (reviewed: {reference} in {location})",
+    content: "Pull request reviewed on {date}\nOriginal activity: {id}\nProject: {project}\nRepository: {repository}\nAuthor: {author}\nTitle: {title}",
+  },
+  "work-items": {
+    message: "fake work item update ({reference} in {location})",
+    content: "Work item updated on {date}\nOriginal activity: {id}\nProject: {project}\nAuthor: {author}\nTitle: {title}",
+  },
+};
+
+// Placeholders available in commit templates
+const TEMPLATE_PLACEHOLDERS = [
+  "kind", "id", "reference", "shortReference", "date", "isoDate", "project", "repository", "location",
+  "branch", "title", "author", "authorName", "authorEmail",
+] as const;
+
+// Function to check a template for unknown placeholders
+export function validateTemplate(template: string): true | string {
+  for (const [, name] of template.matchAll(/\{(\w+)\}/g)) {
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      return `Unknown placeholder {${name}}. Available: ${TEMPLATE_PLACEHOLDERS.map(p => `{${p}}`).join(", ")}`;
+    }
+  }
+  return true;
+}
+
+// Function to fill in a template, leaving out lines whose placeholders are all empty
+function renderTemplate(template: string, values: Record<string, string>): string {
+  return template
+    .split("\n")
+    .filter(line => {
+      const names = Array.from(line.matchAll(/\{(\w+)\}/g), match => match[1]);
+      return names.length === 0 || names.some(name => values[name]);
+    })
+    .map(line => line.replace(/\{(\w+)\}/g, (placeholder, name) => values[name] ?? placeholder))
+    .join("\n");
+}
+
+// Function to list the files a commit changed, one line each, so the fake commit is about as large as the original
+function renderChanges(changes: NonNullable<Activity["changes"]>): string {
+  const lines = [`Changes: ${changes.added} added, ${changes.edited} edited, ${changes.deleted} deleted`];
+  for (const [kind, count] of Object.entries(changes)) {
+    for (let i = 1; i <= count; i++) {
+      lines.push(`${kind} file ${i}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// Function to build the line the ledger is seeded and reconciled from, see GitOperations.getMirroredCommitIds
+function renderIdLine(activity: Activity): string {
+  return activity.kind === "commits" ? `Original commit: ${activity.id}` : `Original activity: ${activity.id}`;
+}
+
+// Function to build the fake commit mirroring an activity, optionally sized by the files the original changed
+export function formatActivity(activity: Activity, templates: Partial<CommitTemplate> = {}, changeSize = false): PendingCommit {
+  const { date, project, repository, reference, title, authorName, authorEmail } = activity;
+  const values: Record<string, string> = {
+    kind: activity.kind,
+    id: activity.id,
+    reference,
+    shortReference: activity.kind === "commits" ? reference.substring(0, 8) : reference,
+    date: formatZonedDate(date, activity.utcOffset ?? 0),
+    isoDate: date.toISOString(),
+    project,
+    repository: repository ?? "",
+    location: repository ? `${project}/${repository}` : project,
+    branch: activity.branch ?? "",
+    title,
+    author: authorName || authorEmail ? `${authorName} <${authorEmail}>` : "",
+    authorName,
+    authorEmail,
+  };
+
+  const defaults = DEFAULT_TEMPLATES[activity.kind];
+  let content = renderTemplate(templates.content ?? defaults.content, values);
+  // Custom templates may leave out the ID, which the history has to keep
+  const idLine = renderIdLine(activity);
+  if (!content.split("\n").includes(idLine)) {
+    content = content ? `${content}\n${idLine}` : idLine;
+  }
+  return {
+    date,
+    utcOffset: activity.utcOffset,
+    message: renderTemplate(templates.message ?? defaults.message, values),
+    content: changeSize && activity.changes ? `${content}\n${renderChanges(activity.changes)}` : content,
+  };
+}
+
+// Function to build one fake commit for several activities of the same day, dated like the last of them
+export function formatActivities(activities: Activity[], templates: Partial<CommitTemplate> = {}, changeSize = false): PendingCommit {
+  const commits = activities.map(activity => formatActivity(activity, templates, changeSize));
+  if (commits.length === 1) {
+    return commits[0];
+  }
+
+  return {
+    date: commits[commits.length - 1].date,
+    utcOffset: commits[commits.length - 1].utcOffset,
+    message: `${commits[0].message} (+${commits.length - 1} more)`,
+    content: commits.map(commit => commit.content).join("\n\n"),
+  };
+}
@@ -0,0 +1,74 @@
+import type {Activity} from "./activities.ts";
+
+// Point in time and the UTC offset it was recorded in, in minutes east of UTC.
+// Without an offset the local time zone of this machine applies.
+export interface ZonedDate {
+  date: Date;
+  utcOffset?: number;
+}
+
+// Function to read the UTC offset of an ISO 8601 date such as 2024-03-01T23:30:00+09:00.
+// Dates in UTC ("Z") are how Azure DevOps Services reports every date, so their original offset is unknown.
+export function parseUtcOffset(isoDate: string): number | undefined {
+  const match = isoDate.trim().match(/([+-])(\d{2}):?(\d{2})$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, sign, hours, minutes] = match;
+  return (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+}
+
+// Function to get the UTC offset of a time zone at a point in time, accounting for daylight saving time.
+// Time zones are IANA names such as Asia/Tokyo, fixed offsets such as +09:00, UTC, or "local".
+export function getUtcOffset(date: Date, timeZone: string): number {
+  if (timeZone === "local") {
+    return -date.getTimezoneOffset();
+  }
+  if (/^(UTC|Z)$/i.test(timeZone)) {
+    return 0;
+  }
+
+  const fixed = /^[+-]\d{2}:?\d{2}$/.test(timeZone) ? parseUtcOffset(timeZone) : undefined;
+  if (fixed !== undefined) {
+    return fixed;
+  }
+
+  // Throws a RangeError for unknown time zones
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(date)
+    .find(part => part.type === "timeZoneName")?.value ?? "GMT";
+  return parseUtcOffset(name) ?? 0;
+}
+
+// Function to check a time zone given on the command line
+export function validateTimeZone(timeZone: string): true | string {
+  try {
+    getUtcOffset(new Date(), timeZone);
+    return true;
+  } catch {
+    return `Unknown time zone "${timeZone}". Use an IANA name such as Asia/Tokyo, an offset such as +09:00, UTC or local.`;
+  }
+}
+
+// Function to format a UTC offset like git does, e.g. +0900
+export function formatUtcOffset(utcOffset: number): string {
+  const minutes = Math.abs(utcOffset);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${utcOffset < 0 ? "-" : "+"}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+}
+
+// Function to format a date as ISO 8601 in the given UTC offset, e.g. 2024-03-01T23:30:00+09:00
+export function formatZonedDate(date: Date, utcOffset: number): string {
+  const local = new Date(date.getTime() + utcOffset * 60_000).toISOString().slice(0, 19);
+  const offset = formatUtcOffset(utcOffset);
+  return `${local}${offset.slice(0, 3)}:${offset.slice(3)}`;
+}
+
+// Function to settle the offset every fake commit is written in: the forced time zone, else the
+// original offset, else UTC like before offsets were kept
+export function applyTimeZone(activities: Activity[], timeZone?: string): Activity[] {
+  return activities.map(activity => ({
+    ...activity,
+    utcOffset: timeZone ? getUtcOffset(activity.date, timeZone) : activity.utcOffset ?? 0,
+  }));
+}
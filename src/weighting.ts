@@ -0,0 +1,66 @@
+import type {Activity} from "./activities.ts";
+import {dayKey} from "./heatmap.ts";
+import type {ZonedDate} from "./timezone.ts";
+
+// How activities are turned into fake commits: one each, at most a number per day, or one per day
+export const WEIGHTINGS = ["per-commit", "daily-cap", "daily"] as const;
+export type Weighting = typeof WEIGHTINGS[number];
+
+// Default number of fake commits per day with the daily-cap weighting
+export const DEFAULT_DAILY_CAP = 10;
+
+export interface WeightingSettings {
+  weighting: Weighting;
+  // Fake commits per day, counting the ones already in the contributions repository
+  dailyCap: number;
+}
+
+// Fake commits to write, and the activities left out because their day already reached the cap
+export interface CommitPlan {
+  // Activities of each fake commit, oldest first
+  commits: Activity[][];
+  capped: Activity[];
+}
+
+// Function to plan the fake commits for activities sorted oldest first. With a daily cap, the
+// activities beyond it are added to the last fake commit of their day, so they still show up in the history.
+export function planCommits(activities: Activity[], settings: WeightingSettings, existingDates: ZonedDate[] = []): CommitPlan {
+  if (settings.weighting === "per-commit") {
+    return { commits: activities.map(activity => [activity]), capped: [] };
+  }
+
+  const commits: Activity[][] = [];
+  const capped: Activity[] = [];
+  const commitsPerDay = new Map<string, number>();
+  const lastCommitOfDay = new Map<string, Activity[]>();
+
+  if (settings.weighting === "daily-cap") {
+    for (const { date, utcOffset } of existingDates) {
+      const day = dayKey(date, utcOffset);
+      commitsPerDay.set(day, (commitsPerDay.get(day) ?? 0) + 1);
+    }
+  }
+
+  for (const activity of activities) {
+    const day = dayKey(activity.date, activity.utcOffset);
+    const lastCommit = lastCommitOfDay.get(day);
+    const limit = settings.weighting === "daily" ? 1 : settings.dailyCap;
+    const count = commitsPerDay.get(day) ?? 0;
+
+    if (count < limit) {
+      const commit = [activity];
+      commits.push(commit);
+      lastCommitOfDay.set(day, commit);
+      commitsPerDay.set(day, count + 1);
+    } else if (lastCommit) {
+      lastCommit.push(activity);
+    } else {
+      // Days capped by earlier syncs get no more fake commits
+      capped.push(activity);
+    }
+  }
+
+  // Commits are dated like their last activity, which can move them past later ones
+  commits.sort((a, b) => a[a.length - 1].date.getTime() - b[b.length - 1].date.getTime());
+  return { commits, capped };
+}
@@ -0,0 +1,140 @@
+import {assertEquals, assertRejects} from "@std/assert";
+import {AzureDevOpsClient} from "../src/azure_devops.ts";
+import {mockChangeset, MockAzureDevOps, mockCommit, type MockProject} from "./mock_azure_devops.ts";
+
+const EMAIL = "dev@example.com";
+
+// Function to build a project with one repository holding the given number of commits
+function projectWithCommits(count: number): MockProject {
+  const commits = Array.from({ length: count }, (_, i) =>
+    mockCommit(i + 1, EMAIL, new Date(Date.UTC(2024, 0, 1) + i * 60_000).toISOString())
+  );
+  return {
+    id: "p1",
+    name: "Project",
+    repositories: [{ id: "r1", name: "repo", defaultBranch: "main", branches: { main: commits } }],
+  };
+}
+
+function createClient(server: MockAzureDevOps, token = MockAzureDevOps.TOKEN): AzureDevOpsClient {
+  return new AzureDevOpsClient(MockAzureDevOps.ORGANIZATION, token, { baseUrl: server.baseUrl, maxRetries: 2 });
+}
+
+Deno.test("getCommits follows Link headers across pages", async () => {
+  const server = new MockAzureDevOps([projectWithCommits(250)]);
+  try {
+    const commits = await createClient(server).getCommits("p1", "r1");
+
+    assertEquals(commits.length, 250);
+    assertEquals(new Set(commits.map(commit => commit.commitId)).size, 250);
+    assertEquals(server.requests.map(url => url.searchParams.get("$skip")), [null, "100", "200"]);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("getCommits passes the date range and branch", async () => {
+  const server = new MockAzureDevOps([projectWithCommits(10)]);
+  try {
+    const commits = await createClient(server).getCommits(
+      "p1",
+      "r1",
+      new Date("2024-01-01T00:03:00Z"),
+      new Date("2024-01-01T00:05:00Z"),
+      "main",
+    );
+
+    assertEquals(commits.map(commit => commit.comment), ["Commit 4", "Commit 5", "Commit 6"]);
+    assertEquals(server.requests[0].searchParams.get("searchCriteria.itemVersion.version"), "main");
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("getPullRequests pages with $skip until a short page", async () => {
+  const project = projectWithCommits(0);
+  project.pullRequests = Array.from({ length: 150 }, (_, i) => ({ pullRequestId: i + 1 }));
+  const server = new MockAzureDevOps([project]);
+  try {
+    const pullRequests = await createClient(server).getPullRequests("p1");
+
+    assertEquals(pullRequests.length, 150);
+    assertEquals(server.requests.map(url => url.searchParams.get("$skip")), ["0", "100"]);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("getChangesets pages with $skip and passes the author and date range", async () => {
+  const project = projectWithCommits(0);
+  project.changesets = Array.from({ length: 120 }, (_, i) =>
+    mockChangeset(120 - i, EMAIL, new Date(Date.UTC(2024, 0, 1) + (119 - i) * 60_000).toISOString())
+  );
+  const server = new MockAzureDevOps([project, projectWithCommits(0)]);
+  server.projects[1].id = "p2";
+  try {
+    const client = createClient(server);
+    const changesets = await client.getChangesets("p1", EMAIL, new Date("2024-01-01T00:00:00Z"));
+
+    assertEquals(changesets.length, 120);
+    assertEquals(server.requests.map(url => url.searchParams.get("$skip")), ["0", "100"]);
+    assertEquals(server.requests[0].searchParams.get("searchCriteria.author"), EMAIL);
+    assertEquals(server.requests[0].searchParams.get("searchCriteria.fromDate"), "2024-01-01T00:00:00.000Z");
+
+    assertEquals(await client.hasTfvc("p1"), true);
+    assertEquals(await client.hasTfvc("p2"), false);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("getBranches follows continuation tokens", async () => {
+  const project = projectWithCommits(0);
+  project.repositories[0].branches = { main: [], develop: [], "feature/a": [], "feature/b": [], hotfix: [] };
+  const server = new MockAzureDevOps([project]);
+  try {
+    const branches = await createClient(server).getBranches("p1", "r1");
+
+    assertEquals(branches, ["main", "develop", "feature/a", "feature/b", "hotfix"]);
+    assertEquals(server.requests.length, 3);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("requests are retried after throttling", async () => {
+  const server = new MockAzureDevOps([projectWithCommits(1)]);
+  server.queuedResponses.push(
+    () => new Response("Too many requests", { status: 429, headers: { "retry-after": "0" } }),
+    () => new Response("Service unavailable", { status: 503, headers: { "retry-after": "0" } }),
+  );
+  try {
+    const projects = await createClient(server).getProjects();
+
+    assertEquals(projects.map(project => project.name), ["Project"]);
+    assertEquals(server.requests.length, 3);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("client errors are not retried", async () => {
+  const project = projectWithCommits(1);
+  project.repositories[0].failWith = 404;
+  const server = new MockAzureDevOps([project]);
+  try {
+    await assertRejects(() => createClient(server).getCommits("p1", "r1"), Error, "Azure DevOps API error (404)");
+    assertEquals(server.requests.length, 1);
+  } finally {
+    await server.close();
+  }
+});
+
+Deno.test("an invalid token is rejected", async () => {
+  const server = new MockAzureDevOps([projectWithCommits(1)]);
+  try {
+    await assertRejects(() => createClient(server, "wrong-token").getProjects(), Error, "Azure DevOps API error (401)");
+  } finally {
+    await server.close();
+  }
+});
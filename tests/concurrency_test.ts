@@ -0,0 +1,22 @@
+import {assertEquals} from "@std/assert";
+import {createLimiter, runConcurrently, sleep} from "../src/concurrency.ts";
+
+Deno.test("tasks started from nested loops share one limit", async () => {
+  const limit = createLimiter(2);
+  let running = 0;
+  let mostRunning = 0;
+  const done: string[] = [];
+
+  await runConcurrently(["a", "b"], 2, async (project) => {
+    await Promise.all([1, 2, 3].map(item => limit(async () => {
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await sleep(5);
+      running--;
+      done.push(`${project}${item}`);
+    })));
+  });
+
+  assertEquals(mostRunning, 2);
+  assertEquals(done.toSorted(), ["a1", "a2", "a3", "b1", "b2", "b3"]);
+});
@@ -0,0 +1,156 @@
+import {assert, assertEquals, assertFalse, assertRejects, assertStringIncludes} from "@std/assert";
+import {exists} from "@std/fs";
+import {join} from "@std/path";
+import {
+  CONFIG_DIR_ENV,
+  CONFIG_VERSION,
+  getConfigFilePath,
+  listAvailableOrganizations,
+  readConfig,
+  removeConfig,
+  setConfigValue,
+  unsetConfigValue,
+  writeConfig,
+} from "../src/config.ts";
+import {getVaultFilePath, migrateLegacyVault} from "../src/credentials.ts";
+import {log} from "../src/logger.ts";
+
+await log.configure("error");
+
+// Function to run a test in a fresh working directory that is also the config directory
+async function withConfigDir(test: (path: string) => Promise<void>): Promise<void> {
+  const path = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+  const cwd = Deno.cwd();
+  Deno.chdir(path);
+  Deno.env.set(CONFIG_DIR_ENV, join(path, "config"));
+  try {
+    await test(path);
+  } finally {
+    Deno.env.delete(CONFIG_DIR_ENV);
+    Deno.chdir(cwd);
+    await Deno.remove(path, { recursive: true });
+  }
+}
+
+Deno.test("per-organization config files of older versions are migrated once", async () => {
+  await withConfigDir(async (path) => {
+    await Deno.writeTextFile(join(path, "contoso.config.json"), JSON.stringify({
+      organization: "contoso",
+      token: "secret",
+      emails: ["dev@example.com"],
+      weighting: "daily",
+    }));
+    await Deno.writeTextFile(join(path, "config.json"), JSON.stringify({ organization: "fabrikam", emails: ["dev@fabrikam.com"] }));
+
+    assertEquals(await listAvailableOrganizations(), ["contoso", "fabrikam"]);
+    assertEquals(await readConfig("contoso"), {
+      organization: "contoso",
+      token: "secret",
+      emails: ["dev@example.com"],
+      weighting: "daily",
+    });
+    assertFalse(await exists(join(path, "contoso.config.json")));
+    assert(await exists(join(path, "contoso.config.json.migrated")));
+    for await (const entry of Deno.readDir(path)) {
+      if (entry.isFile) {
+        assertFalse((await Deno.readTextFile(join(path, entry.name))).includes("secret"), `${entry.name} holds the token`);
+      }
+    }
+
+    const file = JSON.parse(await Deno.readTextFile(getConfigFilePath()));
+    assertEquals(file.version, CONFIG_VERSION);
+    assertEquals(Object.keys(file.organizations).toSorted(), ["contoso", "fabrikam"]);
+  });
+});
+
+Deno.test("files that only share the name of older config files are left alone", async () => {
+  await withConfigDir(async (path) => {
+    await Deno.writeTextFile(join(path, "config.json"), JSON.stringify({ compilerOptions: { strict: true } }));
+    await Deno.writeTextFile(join(path, "app.config.json"), JSON.stringify({ emails: ["alerts@example.com"] }));
+    await Deno.writeTextFile(join(path, "broken.config.json"), "{");
+
+    assertEquals(await listAvailableOrganizations(), []);
+    for (const name of ["config.json", "app.config.json", "broken.config.json"]) {
+      assert(await exists(join(path, name)));
+      assertFalse(await exists(join(path, `${name}.migrated`)));
+    }
+  });
+});
+
+Deno.test("invalid settings are rejected with every problem listed", async () => {
+  await withConfigDir(async () => {
+    await Deno.mkdir(join(Deno.cwd(), "config"));
+    await Deno.writeTextFile(getConfigFilePath(), JSON.stringify({
+      version: CONFIG_VERSION,
+      organizations: { contoso: { emails: "dev@example.com", weighting: "hourly", dailyCap: 0 } },
+    }));
+
+    const error = await assertRejects(() => readConfig("contoso"));
+    assertStringIncludes(String(error), "emails must be a list of strings");
+    assertStringIncludes(String(error), "weighting must be one of per-commit, daily-cap, daily");
+    assertStringIncludes(String(error), "dailyCap must be at least 1");
+
+    await Deno.writeTextFile(getConfigFilePath(), JSON.stringify({ version: CONFIG_VERSION + 1, organizations: {} }));
+    await assertRejects(() => readConfig("contoso"), Error, "written by a newer csync-azd");
+  });
+});
+
+Deno.test("single settings are changed and removed", async () => {
+  await withConfigDir(async () => {
+    await writeConfig({ organization: "contoso", emails: ["dev@example.com"] });
+
+    await setConfigValue("contoso", "weighting", "daily-cap");
+    await setConfigValue("contoso", "dailyCap", "5");
+    await setConfigValue("contoso", "projects", "Platform, !Sandbox");
+    await setConfigValue("contoso", "privacy.names", "hashed");
+    assertEquals(await readConfig("contoso"), {
+      organization: "contoso",
+      emails: ["dev@example.com"],
+      weighting: "daily-cap",
+      dailyCap: 5,
+      projects: ["Platform", "!Sandbox"],
+      privacy: { names: "hashed" },
+    });
+
+    await assertRejects(() => setConfigValue("contoso", "dailyCap", "many"), Error, "dailyCap must be a whole number");
+    await assertRejects(() => setConfigValue("contoso", "colour", "blue"), Error, "colour is not a known setting");
+    await assertRejects(() => setConfigValue("contoso", "token", "secret"), Error, "cannot be set by hand");
+    await assertRejects(() => setConfigValue("fabrikam", "weighting", "daily"), Error, "No settings saved for fabrikam");
+    await assertRejects(() => unsetConfigValue("contoso", "emails"), Error, "is required");
+    await assertRejects(
+      () => writeConfig({ organization: "contoso", emails: ["dev@example.com"], dailyCap: 0 }),
+      Error,
+      'Invalid value "0": dailyCap must be at least 1',
+    );
+
+    await unsetConfigValue("contoso", "privacy.names");
+    await unsetConfigValue("contoso", "dailyCap");
+    assertEquals(await readConfig("contoso"), {
+      organization: "contoso",
+      emails: ["dev@example.com"],
+      weighting: "daily-cap",
+      projects: ["Platform", "!Sandbox"],
+    });
+
+    assert(await removeConfig("contoso"));
+    assertEquals(await readConfig("contoso"), null);
+    assertFalse(await removeConfig("contoso"));
+  });
+});
+
+Deno.test("the credential vault of older versions is moved next to the config file", async () => {
+  await withConfigDir(async (path) => {
+    await Deno.writeTextFile(join(path, "csync-azd.vault.json"), '{"version":1}');
+
+    await migrateLegacyVault();
+    assertEquals(getVaultFilePath(), join(path, "config", "csync-azd.vault.json"));
+    assertEquals(await Deno.readTextFile(getVaultFilePath()), '{"version":1}');
+    assertFalse(await exists(join(path, "csync-azd.vault.json")));
+    assertFalse(await exists(join(path, "csync-azd.vault.json.migrated")));
+
+    // A vault already next to the config file is never replaced
+    await Deno.writeTextFile(join(path, "csync-azd.vault.json"), '{"version":2}');
+    await migrateLegacyVault();
+    assertEquals(await Deno.readTextFile(getVaultFilePath()), '{"version":1}');
+  });
+});
@@ -0,0 +1,59 @@
+import {assertEquals, assertStringIncludes} from "@std/assert";
+import {join} from "@std/path";
+import {buildHeatmap, writeHeatmap} from "../src/heatmap.ts";
+
+// A Wednesday, so the last week of the graph ends early
+const END = new Date(2024, 5, 12, 18, 0);
+
+Deno.test("the graph covers 53 weeks from Sunday to Saturday up to the end date", () => {
+  const heatmap = buildHeatmap([], [], END);
+
+  assertEquals(heatmap.weeks.length, 53);
+  assertEquals(heatmap.weeks[0][0]?.date, "2023-06-11");
+  assertEquals(heatmap.weeks[52].map(day => day?.date ?? null), [
+    "2024-06-09",
+    "2024-06-10",
+    "2024-06-11",
+    "2024-06-12",
+    null,
+    null,
+    null,
+  ]);
+});
+
+Deno.test("contributions are counted per day, before and after the sync", () => {
+  const heatmap = buildHeatmap(
+    [{ date: new Date(2024, 5, 10, 9, 0) }, { date: new Date(2024, 5, 10, 17, 0) }],
+    [{ date: new Date(2024, 5, 10, 12, 0) }, { date: new Date(2024, 5, 11, 8, 0) }, { date: new Date(2022, 0, 1) }],
+    END,
+  );
+
+  const days = heatmap.weeks.flat().filter(day => day && day.existing + day.added > 0);
+  assertEquals(days, [
+    { date: "2024-06-10", existing: 2, added: 1 },
+    { date: "2024-06-11", existing: 0, added: 1 },
+  ]);
+  assertEquals(heatmap.existingTotal, 2);
+  assertEquals(heatmap.addedTotal, 2);
+  assertEquals(heatmap.addedOutside, 1);
+  assertEquals(heatmap.max, 3);
+});
+
+Deno.test("the graph is exported as HTML or SVG", async () => {
+  const path = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+  try {
+    const heatmap = buildHeatmap([{ date: new Date(2024, 5, 10, 9, 0) }], [{ date: new Date(2024, 5, 10, 12, 0) }], END);
+
+    await writeHeatmap(heatmap, "contoso & co", join(path, "graph.html"));
+    const html = await Deno.readTextFile(join(path, "graph.html"));
+    assertStringIncludes(html, "<h1>contoso &amp; co</h1>");
+    assertStringIncludes(html, "<title>2 contributions on 2024-06-10 (1 new)</title>");
+    assertStringIncludes(html, "<tr><td>2024-06-10</td><td>1</td><td>1</td></tr>");
+
+    await writeHeatmap(heatmap, "contoso", join(path, "graph.svg"));
+    const svg = await Deno.readTextFile(join(path, "graph.svg"));
+    assertEquals(svg.match(/<rect /g)?.length, 52 * 7 + 4);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+});
@@ -0,0 +1,215 @@
+// In-process mock of the Azure DevOps REST endpoints used by the client
+
+// Commit as returned by the commits endpoint
+export interface MockCommit {
+  commitId: string;
+  comment: string;
+  author: { name: string; email: string; date: string };
+  committer: { name: string; email: string; date: string };
+}
+
+// TFVC changeset as returned by the changesets endpoint
+export interface MockChangeset {
+  changesetId: number;
+  comment: string;
+  author: { displayName: string; uniqueName: string };
+  createdDate: string;
+}
+
+export interface MockRepository {
+  id: string;
+  name: string;
+  defaultBranch?: string;
+  isFork?: boolean;
+  isDisabled?: boolean;
+  // Commits reachable from each branch, newest first
+  branches: Record<string, MockCommit[]>;
+  // Status code every request for this repository fails with
+  failWith?: number;
+}
+
+export interface MockProject {
+  id: string;
+  name: string;
+  repositories: MockRepository[];
+  pullRequests?: any[];
+  // Commits of each pull request, by pull request ID
+  pullRequestCommits?: Record<number, MockCommit[]>;
+  // Changesets of a project with TFVC, newest first
+  changesets?: MockChangeset[];
+}
+
+// Function to build a commit; the number becomes a 40 character commit ID
+export function mockCommit(number: number, email: string, date: string, committerEmail = email): MockCommit {
+  return {
+    commitId: number.toString(16).padStart(40, "0"),
+    comment: `Commit ${number}`,
+    author: { name: email.split("@")[0], email, date },
+    committer: { name: committerEmail.split("@")[0], email: committerEmail, date },
+  };
+}
+
+// Function to build a changeset checked in by the given email
+export function mockChangeset(changesetId: number, email: string, createdDate: string): MockChangeset {
+  return {
+    changesetId,
+    comment: `Changeset ${changesetId}`,
+    author: { displayName: email.split("@")[0], uniqueName: email },
+    createdDate,
+  };
+}
+
+export class MockAzureDevOps {
+  static readonly ORGANIZATION = "contoso";
+  static readonly TOKEN = "valid-token";
+
+  // Every request received, for assertions on paging and retries
+  readonly requests: URL[] = [];
+  // Responses sent before handling the next requests, e.g. to simulate throttling
+  readonly queuedResponses: (() => Response)[] = [];
+  // Page size of lists paged with continuation tokens
+  refsPageSize = 2;
+
+  private server: Deno.HttpServer<Deno.NetAddr>;
+
+  constructor(public projects: MockProject[], public identity: Record<string, unknown> = {}) {
+    this.server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, (request) => this.handle(request));
+  }
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${this.server.addr.port}/${MockAzureDevOps.ORGANIZATION}`;
+  }
+
+  async close(): Promise<void> {
+    await this.server.shutdown();
+  }
+
+  private handle(request: Request): Response {
+    const url = new URL(request.url);
+    this.requests.push(url);
+
+    const queued = this.queuedResponses.shift();
+    if (queued) {
+      return queued();
+    }
+
+    if (request.headers.get("authorization") !== `Basic ${btoa(`:${MockAzureDevOps.TOKEN}`)}`) {
+      return new Response("Access denied", { status: 401 });
+    }
+
+    const path = url.pathname.split("/").slice(2);
+    const [projectId, , area, , repositoryId, resource, pullRequestId, pullRequestResource] = path;
+
+    if (path.join("/") === "_apis/connectionData") {
+      return Response.json({ authenticatedUser: this.identity });
+    }
+    if (path.join("/") === "_apis/projects") {
+      return this.list(this.projects.map(({ id, name }) => ({ id, name })));
+    }
+
+    if (path[0] === "_apis" && path[1] === "projects") {
+      const project = this.projects.find(project => project.id === path[2]);
+      if (!project) {
+        return new Response("Not found", { status: 404 });
+      }
+      const versioncontrol = { sourceControlType: "Git", gitEnabled: "True", tfvcEnabled: project.changesets ? "True" : "False" };
+      return Response.json({ id: project.id, name: project.name, capabilities: { versioncontrol } });
+    }
+
+    const project = this.projects.find(project => project.id === projectId);
+    if (project && area === "tfvc" && path[3] === "changesets" && project.changesets) {
+      return this.page(url, this.getChangesets(url, project.changesets), false);
+    }
+    if (!project || area !== "git") {
+      return new Response("Not found", { status: 404 });
+    }
+
+    if (path[3] === "pullrequests") {
+      return this.page(url, project.pullRequests ?? [], false);
+    }
+
+    if (path[3] !== "repositories") {
+      return new Response("Not found", { status: 404 });
+    }
+    if (!repositoryId) {
+      return this.list(project.repositories.map(({ id, name, defaultBranch, isFork, isDisabled }) => ({
+        id,
+        name,
+        defaultBranch: defaultBranch && `refs/heads/${defaultBranch}`,
+        isFork,
+        isDisabled,
+      })));
+    }
+
+    const repository = project.repositories.find(repository => repository.id === repositoryId);
+    if (!repository) {
+      return new Response("Not found", { status: 404 });
+    }
+    if (repository.failWith) {
+      return new Response(`Repository ${repository.name} failed`, { status: repository.failWith });
+    }
+
+    switch (resource) {
+      case "commits":
+        return this.page(url, this.getCommits(url, repository), true);
+      case "refs":
+        return this.continued(url, Object.keys(repository.branches).map(branch => ({ name: `refs/heads/${branch}` })));
+      case "pullRequests":
+        if (pullRequestResource === "commits") {
+          return this.continued(url, project.pullRequestCommits?.[Number(pullRequestId)] ?? []);
+        }
+    }
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Commits of the requested branch within the requested date range
+  private getCommits(url: URL, repository: MockRepository): MockCommit[] {
+    const branch = url.searchParams.get("searchCriteria.itemVersion.version") ?? repository.defaultBranch ?? "";
+    const fromDate = url.searchParams.get("searchCriteria.fromDate");
+    const toDate = url.searchParams.get("searchCriteria.toDate");
+
+    return (repository.branches[branch] ?? []).filter(commit =>
+      (!fromDate || new Date(commit.committer.date) >= new Date(fromDate)) &&
+      (!toDate || new Date(commit.committer.date) <= new Date(toDate))
+    );
+  }
+
+  // Changesets of the requested author within the requested date range
+  private getChangesets(url: URL, changesets: MockChangeset[]): MockChangeset[] {
+    const author = url.searchParams.get("searchCriteria.author")?.toLowerCase();
+    const fromDate = url.searchParams.get("searchCriteria.fromDate");
+    const toDate = url.searchParams.get("searchCriteria.toDate");
+
+    return changesets.filter(changeset =>
+      (!author || changeset.author.uniqueName.toLowerCase() === author) &&
+      (!fromDate || new Date(changeset.createdDate) >= new Date(fromDate)) &&
+      (!toDate || new Date(changeset.createdDate) <= new Date(toDate))
+    );
+  }
+
+  private list(value: unknown[], headers?: HeadersInit): Response {
+    return Response.json({ value, count: value.length }, { headers });
+  }
+
+  // Lists paged with $top and $skip, optionally announcing the next page in a Link header
+  private page(url: URL, items: unknown[], link: boolean): Response {
+    const top = Number(url.searchParams.get("$top") ?? 100);
+    const skip = Number(url.searchParams.get("$skip") ?? 0);
+    const value = items.slice(skip, skip + top);
+
+    if (!link || skip + top >= items.length) {
+      return this.list(value);
+    }
+
+    const next = new URL(url);
+    next.searchParams.set("$skip", String(skip + top));
+    return this.list(value, { link: `<${next}>; rel="next"` });
+  }
+
+  // Lists paged with an x-ms-continuationtoken header
+  private continued(url: URL, items: unknown[]): Response {
+    const start = Number(url.searchParams.get("continuationToken") ?? 0);
+    const end = start + this.refsPageSize;
+    return this.list(items.slice(start, end), end < items.length ? { "x-ms-continuationtoken": String(end) } : undefined);
+  }
+}
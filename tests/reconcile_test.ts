@@ -0,0 +1,158 @@
+import {assertEquals, assertFalse} from "@std/assert";
+import {commitActivity} from "../src/activities.ts";
+import {AzureDevOpsClient} from "../src/azure_devops.ts";
+import {parsePatterns} from "../src/filters.ts";
+import {GitOperations} from "../src/git.ts";
+import {SyncLedger} from "../src/ledger.ts";
+import {createSpinner, log} from "../src/logger.ts";
+import {mirrorActivities, type MirrorSettings} from "../src/mirror.ts";
+import {findOrphans, type ReconcileSettings, removeOrphans} from "../src/reconcile.ts";
+import {planCommits, type WeightingSettings} from "../src/weighting.ts";
+import {MockAzureDevOps, type MockCommit, mockCommit, type MockRepository} from "./mock_azure_devops.ts";
+
+const EMAIL = "dev@example.com";
+const IDENTITY = { name: "Test", email: "test@example.com" };
+
+const MIRROR_SETTINGS: MirrorSettings = {
+  organization: MockAzureDevOps.ORGANIZATION,
+  privacy: {},
+  templates: {},
+};
+
+const SETTINGS: ReconcileSettings = {
+  organization: MockAzureDevOps.ORGANIZATION,
+  emails: [EMAIL],
+  matchCommitter: false,
+  projects: [],
+  repositories: [],
+  branches: [],
+  skipForks: false,
+  concurrency: 2,
+};
+
+const COMMITS = [1, 2, 3, 4].map(number => mockCommit(number, EMAIL, `2024-01-0${number}T12:00:00Z`));
+
+await log.configure("error");
+
+// Function to list the author dates and messages of a repository's commits, oldest first
+async function getHistory(repoPath: string): Promise<string[]> {
+  const { stdout } = await new Deno.Command("git", {
+    args: ["log", "--reverse", "--format=%aI %s"],
+    cwd: repoPath,
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+  return new TextDecoder().decode(stdout).split("\n").filter(line => line);
+}
+
+// Repository next to "repo" whose commits were mirrored, but which a reconcile may not search
+interface OtherRepository {
+  commits: MockCommit[];
+  repository: Partial<MockRepository>;
+  settings?: Partial<ReconcileSettings>;
+}
+
+// Function to mirror commits, then reconcile them with an organization that only has the remaining ones
+async function reconcile(
+  mirrored: MockCommit[],
+  remaining: MockCommit[],
+  weighting: WeightingSettings["weighting"] = "per-commit",
+  other?: OtherRepository,
+) {
+  const repoPath = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+  const repositories: MockRepository[] = [{ id: "r1", name: "repo", defaultBranch: "main", branches: { main: remaining.toReversed() } }];
+  if (other) {
+    repositories.push({
+      id: "r2",
+      name: "legacy",
+      defaultBranch: "main",
+      branches: { main: other.commits.toReversed() },
+      ...other.repository,
+    });
+  }
+  const server = new MockAzureDevOps([{ id: "p1", name: "Project", repositories }]);
+
+  try {
+    const gitOps = new GitOperations(repoPath, MockAzureDevOps.ORGANIZATION, IDENTITY);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(repoPath);
+    await ledger.load(gitOps);
+
+    const activities = [
+      ...mirrored.map(commit => commitActivity(commit, "Project", "repo", "main")),
+      ...(other?.commits ?? []).map(commit => commitActivity(commit, "Project", "legacy", "main")),
+    ].sort((a, b) => a.date.getTime() - b.date.getTime());
+    await mirrorActivities(gitOps, ledger, planCommits(activities, { weighting, dailyCap: 1 }), MIRROR_SETTINGS);
+    const before = await getHistory(repoPath);
+
+    const client = new AzureDevOpsClient(MockAzureDevOps.ORGANIZATION, MockAzureDevOps.TOKEN, {
+      baseUrl: server.baseUrl,
+      maxRetries: 0,
+    });
+    const plan = await findOrphans(client, gitOps, ledger, { ...SETTINGS, ...other?.settings }, createSpinner());
+    await removeOrphans(gitOps, ledger, plan);
+
+    const status = await new Deno.Command("git", { args: ["status", "--porcelain"], cwd: repoPath }).output();
+    const reloaded = new SyncLedger(repoPath);
+    await reloaded.load(gitOps);
+
+    return {
+      plan,
+      before,
+      after: await getHistory(repoPath),
+      clean: new TextDecoder().decode(status.stdout) === "",
+      mirrored: await gitOps.getMirroredCommitIds(),
+      ledger: reloaded,
+    };
+  } finally {
+    await server.close();
+    await Deno.remove(repoPath, { recursive: true });
+  }
+}
+
+Deno.test("fake commits of vanished commits are removed, keeping the dates and order of the others", async () => {
+  const result = await reconcile(COMMITS, [COMMITS[1], COMMITS[3]]);
+
+  assertEquals(result.plan.checked, 4);
+  assertEquals(result.plan.orphans.map(commit => commit.ids), [[COMMITS[0].commitId], [COMMITS[2].commitId]]);
+  assertEquals(result.after, [result.before[1], result.before[3]]);
+  assertEquals(result.clean, true);
+  assertEquals(result.mirrored.toSorted(), [COMMITS[1].commitId, COMMITS[3].commitId]);
+  assertFalse(result.ledger.has(COMMITS[0].commitId));
+  assertEquals(result.ledger.size, 2);
+});
+
+Deno.test("nothing is removed while every original still exists", async () => {
+  const result = await reconcile(COMMITS, COMMITS);
+
+  assertEquals(result.plan.orphans, []);
+  assertEquals(result.after, result.before);
+  assertEquals(result.ledger.size, 4);
+});
+
+Deno.test("grouped fake commits are only removed once all of their originals vanished", async () => {
+  const sameDay = [5, 6].map(number => mockCommit(number, EMAIL, `2024-01-01T1${number}:00:00Z`));
+  const result = await reconcile([...sameDay, COMMITS[1], COMMITS[2]], [sameDay[0], COMMITS[2]], "daily");
+
+  assertEquals(result.plan.orphans.map(commit => commit.ids), [[COMMITS[1].commitId]]);
+  assertEquals(result.plan.partial.map(commit => commit.ids), [[sameDay[0].commitId, sameDay[1].commitId]]);
+  assertEquals(result.after, [result.before[0], result.before[2]]);
+  assertEquals(result.clean, true);
+});
+
+Deno.test("fake commits of repositories the search skipped are kept", async () => {
+  const legacy = [5, 6].map(number => mockCommit(number, EMAIL, `2024-01-0${number}T12:00:00Z`));
+
+  for (const other of [
+    { commits: legacy, repository: {}, settings: { repositories: parsePatterns(["!legacy"]) } },
+    { commits: legacy, repository: { isDisabled: true } },
+    { commits: legacy, repository: { isFork: true }, settings: { skipForks: true } },
+  ]) {
+    const result = await reconcile(COMMITS, COMMITS, "per-commit", other);
+
+    assertEquals(result.plan.skipped.map(item => item.name), ["Project/legacy"]);
+    assertEquals(result.plan.orphans, []);
+    assertEquals(result.after, result.before);
+    assertEquals(result.ledger.size, 6);
+  }
+});
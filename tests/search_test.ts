@@ -0,0 +1,224 @@
+import {assertEquals} from "@std/assert";
+import {getOrganizationKey} from "../src/activities.ts";
+import {AzureDevOpsClient} from "../src/azure_devops.ts";
+import {parsePatterns} from "../src/filters.ts";
+import {GitOperations} from "../src/git.ts";
+import {SyncLedger} from "../src/ledger.ts";
+import {createSpinner, log} from "../src/logger.ts";
+import {searchActivities, type SearchResult, type SearchSettings} from "../src/search.ts";
+import {mockChangeset, MockAzureDevOps, mockCommit, type MockProject} from "./mock_azure_devops.ts";
+
+const EMAIL = "dev@example.com";
+const OTHER_EMAIL = "someone.else@example.com";
+const ORGANIZATION_KEY = await getOrganizationKey(MockAzureDevOps.ORGANIZATION);
+
+await log.configure("error");
+
+// Function to search the given projects with an empty ledger, unless one is passed
+async function search(
+  projects: MockProject[],
+  settings: Partial<SearchSettings> = {},
+  prepareLedger?: (ledger: SyncLedger) => Promise<void>,
+): Promise<SearchResult> {
+  const server = new MockAzureDevOps(projects);
+  const repoPath = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+
+  try {
+    const gitOps = new GitOperations(repoPath, MockAzureDevOps.ORGANIZATION);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(repoPath);
+    await ledger.load(gitOps);
+    await prepareLedger?.(ledger);
+
+    const client = new AzureDevOpsClient(MockAzureDevOps.ORGANIZATION, MockAzureDevOps.TOKEN, {
+      baseUrl: server.baseUrl,
+      maxRetries: 0,
+    });
+
+    return await searchActivities(client, ledger, {
+      organization: MockAzureDevOps.ORGANIZATION,
+      emails: [EMAIL],
+      fromDate: new Date("2024-01-01T00:00:00Z"),
+      activityKinds: ["commits"],
+      matchCommitter: false,
+      projects: [],
+      repositories: [],
+      branches: [],
+      skipForks: false,
+      concurrency: 2,
+      ...settings,
+    }, createSpinner());
+  } finally {
+    await server.close();
+    await Deno.remove(repoPath, { recursive: true });
+  }
+}
+
+Deno.test("only commits of the given emails are found, oldest first", async () => {
+  const result = await search([{
+    id: "p1",
+    name: "Project",
+    repositories: [{
+      id: "r1",
+      name: "repo",
+      defaultBranch: "main",
+      branches: {
+        main: [
+          mockCommit(3, EMAIL, "2024-03-01T00:00:00Z"),
+          mockCommit(2, OTHER_EMAIL, "2024-02-01T00:00:00Z"),
+          mockCommit(1, EMAIL, "2024-01-15T00:00:00Z"),
+          mockCommit(0, EMAIL, "2023-12-01T00:00:00Z"),
+        ],
+      },
+    }],
+  }]);
+
+  assertEquals(result.activities.map(activity => activity.title), ["Commit 1", "Commit 3"]);
+  assertEquals(result.repositories, ["Project/repo"]);
+  assertEquals(result.failed, []);
+});
+
+Deno.test("duplicate and differently cased emails find each commit once", async () => {
+  const result = await search([{
+    id: "p1",
+    name: "Project",
+    repositories: [{
+      id: "r1",
+      name: "repo",
+      defaultBranch: "main",
+      branches: {
+        main: [
+          mockCommit(2, "Dev@Example.com", "2024-02-01T00:00:00Z"),
+          mockCommit(1, EMAIL, "2024-01-15T00:00:00Z"),
+        ],
+      },
+    }],
+  }], { emails: [EMAIL, "DEV@example.com", EMAIL] });
+
+  assertEquals(result.activities.map(activity => activity.title), ["Commit 1", "Commit 2"]);
+});
+
+Deno.test("committer emails only match when asked to", async () => {
+  const projects: MockProject[] = [{
+    id: "p1",
+    name: "Project",
+    repositories: [{
+      id: "r1",
+      name: "repo",
+      defaultBranch: "main",
+      branches: { main: [mockCommit(1, OTHER_EMAIL, "2024-01-15T00:00:00Z", EMAIL)] },
+    }],
+  }];
+
+  assertEquals((await search(projects)).activities.length, 0);
+  assertEquals((await search(projects, { matchCommitter: true })).activities.length, 1);
+});
+
+Deno.test("failing repositories are recorded and the search continues", async () => {
+  const result = await search([{
+    id: "p1",
+    name: "Project",
+    repositories: [
+      { id: "r1", name: "broken", defaultBranch: "main", branches: {}, failWith: 404 },
+      { id: "r2", name: "repo", defaultBranch: "main", branches: { main: [mockCommit(1, EMAIL, "2024-01-15T00:00:00Z")] } },
+    ],
+  }]);
+
+  assertEquals(result.activities.map(activity => activity.repository), ["repo"]);
+  assertEquals(result.failed.map(item => item.name), ["Project/broken"]);
+});
+
+Deno.test("disabled, forked and filtered repositories are skipped", async () => {
+  const commits = { main: [mockCommit(1, EMAIL, "2024-01-15T00:00:00Z")] };
+  const result = await search([{
+    id: "p1",
+    name: "Project",
+    repositories: [
+      { id: "r1", name: "disabled", defaultBranch: "main", branches: commits, isDisabled: true },
+      { id: "r2", name: "fork", defaultBranch: "main", branches: commits, isFork: true },
+      { id: "r3", name: "archive", defaultBranch: "main", branches: commits },
+      { id: "r4", name: "repo", defaultBranch: "main", branches: commits },
+    ],
+  }], { skipForks: true, repositories: parsePatterns(["!archive"]) });
+
+  assertEquals(result.repositories, ["Project/repo"]);
+  assertEquals(result.skipped, [
+    { name: "Project/disabled", reason: "disabled" },
+    { name: "Project/fork", reason: "fork" },
+    { name: "Project/archive", reason: "excluded by the repository filters" },
+  ]);
+});
+
+Deno.test("commits on several branches are found once, on the default branch", async () => {
+  const shared = mockCommit(1, EMAIL, "2024-01-15T00:00:00Z");
+  const result = await search([{
+    id: "p1",
+    name: "Project",
+    repositories: [{
+      id: "r1",
+      name: "repo",
+      defaultBranch: "main",
+      branches: {
+        "feature/a": [mockCommit(2, EMAIL, "2024-01-20T00:00:00Z"), shared],
+        main: [shared],
+        experiment: [mockCommit(3, EMAIL, "2024-01-25T00:00:00Z")],
+      },
+    }],
+  }], { branches: parsePatterns(["main", "feature/*"]) });
+
+  assertEquals(
+    result.activities.map(activity => [activity.title, activity.branch]),
+    [["Commit 1", "main"], ["Commit 2", "feature/a"]],
+  );
+});
+
+Deno.test("commits already in the ledger are reported as duplicates", async () => {
+  const mirrored = mockCommit(1, EMAIL, "2024-01-15T00:00:00Z");
+  const result = await search([{
+    id: "p1",
+    name: "Project",
+    repositories: [{
+      id: "r1",
+      name: "repo",
+      defaultBranch: "main",
+      branches: { main: [mockCommit(2, EMAIL, "2024-02-01T00:00:00Z"), mirrored] },
+    }],
+  }], {}, (ledger) => ledger.record({ commitId: mirrored.commitId }));
+
+  assertEquals(result.activities.map(activity => activity.title), ["Commit 2"]);
+  assertEquals(result.duplicates.map(activity => activity.title), ["Commit 1"]);
+});
+
+Deno.test("changesets are found once in projects with TFVC", async () => {
+  const result = await search([
+    {
+      id: "p1",
+      name: "Legacy",
+      repositories: [],
+      changesets: [
+        mockChangeset(3, OTHER_EMAIL, "2024-03-01T00:00:00Z"),
+        mockChangeset(2, "Dev@Example.com", "2024-02-01T00:00:00Z"),
+        mockChangeset(1, EMAIL, "2023-12-01T00:00:00Z"),
+      ],
+    },
+    { id: "p2", name: "Project", repositories: [] },
+  ], { activityKinds: ["changesets"], emails: [EMAIL, "dev@example.com"] });
+
+  assertEquals(result.activities.map(activity => [activity.id, activity.reference, activity.title]), [
+    [`changesets:${ORGANIZATION_KEY}/2`, "C2", "Changeset 2"],
+  ]);
+  assertEquals(result.repositories, ["$/Legacy"]);
+  assertEquals(result.failed, []);
+});
+
+Deno.test("changesets already in the ledger are reported as duplicates", async () => {
+  const result = await search([{
+    id: "p1",
+    name: "Legacy",
+    repositories: [],
+    changesets: [mockChangeset(2, EMAIL, "2024-02-01T00:00:00Z"), mockChangeset(1, EMAIL, "2024-01-15T00:00:00Z")],
+  }], { activityKinds: ["changesets"] }, (ledger) => ledger.record({ commitId: `changesets:${ORGANIZATION_KEY}/1` }));
+
+  assertEquals(result.activities.map(activity => activity.title), ["Changeset 2"]);
+  assertEquals(result.duplicates.map(activity => activity.title), ["Changeset 1"]);
+});
@@ -0,0 +1,162 @@
+import {assertEquals} from "@std/assert";
+import {join} from "@std/path";
+import {CONFIG_DIR_ENV} from "../src/config.ts";
+import {parsePatterns} from "../src/filters.ts";
+import {GitOperations} from "../src/git.ts";
+import {SyncLedger} from "../src/ledger.ts";
+import {log} from "../src/logger.ts";
+import {createWebhookHandler, SECRET_HEADER, serveOrganization, type WebhookSettings} from "../src/serve.ts";
+import {ExitCode} from "../src/sync.ts";
+
+const SECRET = "s3cret";
+const SECRET_ENV = "CSYNC_AZD_TEST_WEBHOOK_SECRET";
+const IDENTITY = { name: "Test", email: "test@example.com" };
+const PAYLOAD = JSON.parse(await Deno.readTextFile(new URL("./fixtures/git_push.json", import.meta.url)));
+
+const SETTINGS: WebhookSettings = {
+  secret: SECRET,
+  emails: ["dev@example.com"],
+  matchCommitter: false,
+  projects: [],
+  repositories: [],
+  branches: [],
+  mirror: { organization: "contoso", privacy: {}, templates: {} },
+  weighting: { weighting: "per-commit", dailyCap: 1 },
+  publish: { push: false, dryRun: false },
+};
+
+await log.configure("error");
+
+// Function to post a payload to the webhook endpoint
+function post(payload: unknown, headers: HeadersInit = { [SECRET_HEADER]: SECRET }, url = "http://localhost/webhook"): Request {
+  return new Request(url, { method: "POST", headers, body: JSON.stringify(payload) });
+}
+
+// Function to list the author dates of a repository's commits, oldest first
+async function getAuthorDates(repoPath: string): Promise<string[]> {
+  const { stdout } = await new Deno.Command("git", {
+    args: ["log", "--reverse", "--format=%aI"],
+    cwd: repoPath,
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+  return new TextDecoder().decode(stdout).split("\n").filter(line => line);
+}
+
+// Function to run a test with a webhook handler writing to a fresh contributions repository
+async function withHandler(
+  test: (handler: (request: Request) => Promise<Response>, repoPath: string) => Promise<void>,
+  settings: Partial<WebhookSettings> = {},
+): Promise<void> {
+  const repoPath = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+  try {
+    const gitOps = new GitOperations(repoPath, "contoso", IDENTITY);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(repoPath);
+    await ledger.load(gitOps);
+    await test(createWebhookHandler(gitOps, ledger, { ...SETTINGS, ...settings }), repoPath);
+  } finally {
+    await Deno.remove(repoPath, { recursive: true });
+  }
+}
+
+Deno.test("pushed commits of the configured emails are mirrored once, oldest first", async () => {
+  await withHandler(async (handler, repoPath) => {
+    const response = await handler(post(PAYLOAD));
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { commits: 3, mirrored: 2, published: false });
+    assertEquals(await getAuthorDates(repoPath), ["2024-03-01T17:05:00+00:00", "2024-03-02T09:15:00+00:00"]);
+
+    const repeated = await handler(post(PAYLOAD));
+    assertEquals(await repeated.json(), { commits: 3, mirrored: 0, published: false });
+    assertEquals((await getAuthorDates(repoPath)).length, 2);
+  });
+});
+
+Deno.test("requests without the shared secret are rejected", async () => {
+  await withHandler(async (handler, repoPath) => {
+    assertEquals((await handler(post(PAYLOAD, {}))).status, 401);
+    assertEquals((await handler(post(PAYLOAD, { [SECRET_HEADER]: "wrong" }))).status, 401);
+    assertEquals((await handler(post(PAYLOAD, { authorization: `Basic ${btoa("azure:wrong")}` }))).status, 401);
+    assertEquals((await handler(new Request("http://localhost/webhook"))).status, 405);
+    assertEquals((await handler(post(PAYLOAD, undefined, "http://localhost/other"))).status, 404);
+    assertEquals(await getAuthorDates(repoPath), []);
+
+    const response = await handler(post(PAYLOAD, { authorization: `Basic ${btoa(`azure:${SECRET}`)}` }));
+    assertEquals(response.status, 200);
+    assertEquals((await getAuthorDates(repoPath)).length, 2);
+  });
+});
+
+Deno.test("other branches, filtered repositories and other events are ignored", async () => {
+  const featurePush = structuredClone(PAYLOAD);
+  featurePush.resource.refUpdates[0].name = "refs/heads/feature/a";
+
+  await withHandler(async (handler, repoPath) => {
+    assertEquals(await (await handler(post(featurePush))).json(), { commits: 3, mirrored: 0, published: false });
+    assertEquals(await (await handler(post({ eventType: "git.pullrequest.created" }))).json(), {
+      ignored: "git.pullrequest.created",
+    });
+    assertEquals(await getAuthorDates(repoPath), []);
+  });
+
+  await withHandler(async (handler) => {
+    assertEquals(await (await handler(post(featurePush))).json(), { commits: 3, mirrored: 2, published: false });
+  }, { branches: parsePatterns(["feature/*"]) });
+
+  await withHandler(async (handler) => {
+    assertEquals(await (await handler(post(PAYLOAD))).json(), { commits: 3, mirrored: 0, published: false });
+  }, { repositories: parsePatterns(["other"]) });
+});
+
+Deno.test("the listener mirrors posted payloads until it is stopped", async () => {
+  const path = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+  const cwd = Deno.cwd();
+  const controller = new AbortController();
+  Deno.chdir(path);
+  Deno.env.set(CONFIG_DIR_ENV, path);
+  Deno.env.set(SECRET_ENV, SECRET);
+
+  try {
+    const listening = Promise.withResolvers<Deno.NetAddr>();
+    const served = serveOrganization("contoso", {
+      tokenEnv: "CSYNC_AZD_TEST_TOKEN",
+      vaultPassphraseEnv: "CSYNC_AZD_TEST_PASSPHRASE",
+      emails: ["dev@example.com"],
+      commitName: IDENTITY.name,
+      commitEmail: IDENTITY.email,
+      hostname: "127.0.0.1",
+      port: 0,
+      secretEnv: SECRET_ENV,
+    }, {
+      contributionsPath: join(path, "contributions"),
+      signal: controller.signal,
+      onListen: listening.resolve,
+    });
+
+    const { port } = await listening.promise;
+    const response = await fetch(post(PAYLOAD, undefined, `http://127.0.0.1:${port}/webhook`));
+    assertEquals(await response.json(), { commits: 3, mirrored: 2, published: false });
+
+    controller.abort();
+    assertEquals(await served, ExitCode.Success);
+    assertEquals((await getAuthorDates(join(path, "contributions"))).length, 2);
+  } finally {
+    controller.abort();
+    Deno.env.delete(SECRET_ENV);
+    Deno.env.delete(CONFIG_DIR_ENV);
+    Deno.chdir(cwd);
+    await Deno.remove(path, { recursive: true });
+  }
+});
+
+Deno.test("the listener does not start without a secret", async () => {
+  const code = await serveOrganization("contoso", {
+    tokenEnv: "CSYNC_AZD_TEST_TOKEN",
+    vaultPassphraseEnv: "CSYNC_AZD_TEST_PASSPHRASE",
+    emails: ["dev@example.com"],
+    secretEnv: SECRET_ENV,
+  }, { contributionsPath: "unused" });
+
+  assertEquals(code, ExitCode.InvalidUsage);
+});
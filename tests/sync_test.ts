@@ -0,0 +1,323 @@
+import {assert, assertEquals, assertFalse, assertStringIncludes} from "@std/assert";
+import {exists} from "@std/fs";
+import {join} from "@std/path";
+import {type Activity, changesetActivity, commitActivity, getOrganizationKey, migrateActivityId, workItemActivities} from "../src/activities.ts";
+import {SyncCheckpoint} from "../src/checkpoint.ts";
+import {CONFIG_DIR_ENV, readConfig, writeConfig} from "../src/config.ts";
+import {CredentialVault} from "../src/credentials.ts";
+import {GitOperations} from "../src/git.ts";
+import {SyncLedger} from "../src/ledger.ts";
+import {log} from "../src/logger.ts";
+import {mirrorActivities, type MirrorSettings} from "../src/mirror.ts";
+import {ExitCode, type SyncOptions, syncOrganization} from "../src/sync.ts";
+import {type CommitPlan, planCommits} from "../src/weighting.ts";
+import {MockAzureDevOps, mockChangeset, mockCommit, type MockProject} from "./mock_azure_devops.ts";
+
+const EMAIL = "dev@example.com";
+const TOKEN_ENV = "CSYNC_AZD_TEST_TOKEN";
+const IDENTITY = { name: "Test", email: "test@example.com" };
+
+const MIRROR_SETTINGS: MirrorSettings = {
+  organization: MockAzureDevOps.ORGANIZATION,
+  privacy: {},
+  templates: {},
+};
+
+await log.configure("error");
+
+// Function to plan one fake commit per activity
+function perCommit(activities: Activity[]): CommitPlan {
+  return planCommits(activities, { weighting: "per-commit", dailyCap: 1 });
+}
+
+// Function to list the author dates of a repository's commits, oldest first
+async function getAuthorDates(repoPath: string): Promise<string[]> {
+  const { stdout } = await new Deno.Command("git", {
+    args: ["log", "--reverse", "--format=%aI"],
+    cwd: repoPath,
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+  return new TextDecoder().decode(stdout).split("\n").filter(line => line);
+}
+
+// Function to count the commits of a repository
+async function countCommits(repoPath: string): Promise<number> {
+  return (await getAuthorDates(repoPath)).length;
+}
+
+// Function to run a test in a fresh temporary directory, removed afterwards
+async function withTempDir(test: (path: string) => Promise<void>): Promise<void> {
+  const path = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+  try {
+    await test(path);
+  } finally {
+    await Deno.remove(path, { recursive: true });
+  }
+}
+
+// What a syncOrganization test runs against
+interface SyncFixture {
+  path: string;
+  server: MockAzureDevOps;
+  contributionsPath: string;
+  options: SyncOptions;
+  context: { vault: CredentialVault; interactive: false; contributionsPath: string };
+}
+
+// Function to run a sync test against a mock server, from a fresh directory that is also the config directory.
+// The token is passed through the environment, unless it is null.
+async function withSyncFixture(
+  projects: MockProject[],
+  test: (fixture: SyncFixture) => Promise<void>,
+  token: string | null = MockAzureDevOps.TOKEN,
+): Promise<void> {
+  const server = new MockAzureDevOps(projects);
+  const cwd = Deno.cwd();
+
+  await withTempDir(async (path) => {
+    Deno.chdir(path);
+    Deno.env.set(CONFIG_DIR_ENV, path);
+    if (token !== null) {
+      Deno.env.set(TOKEN_ENV, token);
+    }
+
+    try {
+      const contributionsPath = join(path, "contributions");
+      await test({
+        path,
+        server,
+        contributionsPath,
+        options: {
+          emails: [EMAIL],
+          tokenEnv: TOKEN_ENV,
+          vaultPassphraseEnv: "CSYNC_AZD_TEST_PASSPHRASE",
+          baseUrl: server.baseUrl,
+          commitName: IDENTITY.name,
+          commitEmail: IDENTITY.email,
+          yes: true,
+        },
+        context: {
+          vault: new CredentialVault(join(path, "vault.json"), () => Promise.reject(new Error("No vault in tests"))),
+          interactive: false,
+          contributionsPath,
+        },
+      });
+    } finally {
+      Deno.env.delete(TOKEN_ENV);
+      Deno.env.delete(CONFIG_DIR_ENV);
+      Deno.chdir(cwd);
+      await server.close();
+    }
+  });
+}
+
+Deno.test("mirrored activities become commits and ledger entries", async () => {
+  await withTempDir(async (repoPath) => {
+    const gitOps = new GitOperations(repoPath, MockAzureDevOps.ORGANIZATION, IDENTITY);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(repoPath);
+    await ledger.load(gitOps);
+
+    const activities = [1, 2, 3].map(number =>
+      commitActivity(mockCommit(number, EMAIL, `2024-01-0${number}T12:00:00Z`), "Project", "repo")
+    );
+    await mirrorActivities(gitOps, ledger, perCommit(activities), MIRROR_SETTINGS);
+
+    assertEquals(
+      (await getAuthorDates(repoPath)).map(date => new Date(date).toISOString()),
+      activities.map(activity => activity.date.toISOString()),
+    );
+    assertEquals(ledger.size, 3);
+  });
+});
+
+Deno.test("a missing ledger is seeded from the repository history", async () => {
+  await withTempDir(async (repoPath) => {
+    const gitOps = new GitOperations(repoPath, MockAzureDevOps.ORGANIZATION, IDENTITY);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(repoPath);
+    await ledger.load(gitOps);
+
+    // Even with a content template that leaves out the ID
+    const activity = commitActivity(mockCommit(1, EMAIL, "2024-01-01T12:00:00Z"), "Project", "repo");
+    await mirrorActivities(gitOps, ledger, perCommit([activity]), { ...MIRROR_SETTINGS, templates: { content: "{kind} {id}" } });
+    await Deno.remove(join(repoPath, ".git", "csync-azd-ledger.jsonl"));
+
+    const seeded = new SyncLedger(repoPath);
+    await seeded.load(gitOps);
+
+    assert(seeded.has(activity.id));
+    assertFalse(seeded.has(mockCommit(2, EMAIL, "2024-01-02T12:00:00Z").commitId));
+  });
+});
+
+Deno.test("fake commits do not give away the organization through activity IDs", async () => {
+  await withTempDir(async (repoPath) => {
+    const organization = "secret-customer-org";
+    const gitOps = new GitOperations(repoPath, organization, IDENTITY);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(repoPath);
+    await ledger.load(gitOps);
+
+    const organizationKey = await getOrganizationKey(organization);
+    const activity = changesetActivity(organizationKey, mockChangeset(5, EMAIL, "2024-01-01T12:00:00Z"), "Project");
+    const [workItem] = workItemActivities(organizationKey, 7, [{
+      rev: 2,
+      revisedBy: { displayName: "dev", uniqueName: EMAIL },
+      fields: { "System.Title": { newValue: "Work item" }, "System.ChangedDate": { newValue: "2024-01-02T12:00:00Z" } },
+    }], "Project", [EMAIL]);
+    await mirrorActivities(gitOps, ledger, perCommit([activity, workItem]), {
+      organization,
+      privacy: { names: "redacted", includeMessages: false, includeAuthors: false },
+      templates: {},
+    });
+
+    const { stdout } = await new Deno.Command("git", { args: ["log", "-p", "--format=%B"], cwd: repoPath }).output();
+    const content = new TextDecoder().decode(stdout);
+    assertStringIncludes(content, `Original activity: changesets:${organizationKey}/5`);
+    assertStringIncludes(content, `Original activity: work-items:${organizationKey}/7/2`);
+    assertFalse(content.includes(organization));
+    assertEquals((await gitOps.getMirroredCommits()).map(commit => commit.ids), [[activity.id], [workItem.id]]);
+
+    // Ledgers of older versions are keyed by the organization name
+    const legacy = new SyncLedger(join(repoPath, "legacy"));
+    await Deno.mkdir(join(repoPath, "legacy", ".git"), { recursive: true });
+    await legacy.recordAll([
+      { commitId: `changesets:${organization}/5` },
+      { commitId: `work-items:${organization}/7/2` },
+      { commitId: "changesets:other-org/5" },
+    ]);
+    assertEquals(await legacy.migrate(id => migrateActivityId(id, organization, organizationKey)), 2);
+    assert(legacy.has(activity.id));
+    assert(legacy.has(workItem.id));
+    assert(legacy.has("changesets:other-org/5"));
+  });
+});
+
+Deno.test("syncOrganization only mirrors new contributions on later runs", async () => {
+  const project: MockProject = {
+    id: "p1",
+    name: "Project",
+    repositories: [
+      {
+        id: "r1",
+        name: "repo",
+        defaultBranch: "main",
+        branches: { main: [mockCommit(2, EMAIL, "2024-02-01T00:00:00Z"), mockCommit(1, EMAIL, "2024-01-15T00:00:00Z")] },
+      },
+      { id: "r2", name: "broken", defaultBranch: "main", branches: {}, failWith: 404 },
+    ],
+  };
+
+  await withSyncFixture([project], async ({ contributionsPath, options, context }) => {
+    const since = new Date("2024-01-01T00:00:00Z");
+
+    // A token from the environment is used for the run, but the saved reference is kept
+    const credential = { store: "vault" as const, key: MockAzureDevOps.ORGANIZATION };
+    await writeConfig({ organization: MockAzureDevOps.ORGANIZATION, emails: [EMAIL], credential });
+
+    const first = await syncOrganization(MockAzureDevOps.ORGANIZATION, { ...options, since }, context);
+    assertEquals(first.exitCode, ExitCode.PartialFailure);
+    assertEquals(first.found, 2);
+    assertEquals(first.succeeded, ["Project/repo"]);
+    assertEquals(first.failed.map(item => item.name), ["Project/broken"]);
+    assertEquals(await countCommits(contributionsPath), 2);
+    assertEquals((await readConfig(MockAzureDevOps.ORGANIZATION))?.credential, credential);
+
+    project.repositories[0].branches.main.unshift(mockCommit(3, EMAIL, "2024-03-01T00:00:00Z"));
+    project.repositories.pop();
+
+    const second = await syncOrganization(MockAzureDevOps.ORGANIZATION, { ...options, since }, context);
+    assertEquals(second.exitCode, ExitCode.Success);
+    assertEquals(second.found, 1);
+    assertEquals(second.duplicates, 2);
+    assertEquals(await countCommits(contributionsPath), 3);
+  });
+});
+
+Deno.test("syncOrganization resumes an interrupted sync without replaying written commits", async () => {
+  const commits = [1, 2, 3].map(number => mockCommit(number, EMAIL, `2024-01-0${number}T12:00:00Z`));
+  const projects: MockProject[] = [{
+    id: "p1",
+    name: "Project",
+    repositories: [
+      { id: "r1", name: "done", defaultBranch: "main", branches: { main: [commits[1], commits[0]] } },
+      { id: "r2", name: "pending", defaultBranch: "main", branches: { main: [commits[2]] } },
+    ],
+  }];
+
+  await withSyncFixture(projects, async ({ server, contributionsPath, options, context }) => {
+    const since = new Date("2024-01-01T00:00:00Z");
+
+    // The interrupted run searched the first repository and wrote its first commit, but did not record it
+    const gitOps = new GitOperations(contributionsPath, MockAzureDevOps.ORGANIZATION, IDENTITY);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(contributionsPath);
+    await ledger.load(gitOps);
+    const found = [commits[1], commits[0]].map(commit => commitActivity(commit, "Project", "done"));
+    await mirrorActivities(gitOps, ledger, perCommit([found[1]]), MIRROR_SETTINGS);
+    await Deno.writeTextFile(join(contributionsPath, ".git", "csync-azd-ledger.jsonl"), "");
+
+    const checkpoint = new SyncCheckpoint(contributionsPath, MockAzureDevOps.ORGANIZATION);
+    await checkpoint.begin(MockAzureDevOps.ORGANIZATION, {
+      emails: [EMAIL],
+      activityKinds: ["commits"],
+      matchCommitter: false,
+      projects: [],
+      repositories: [],
+      branches: [],
+      skipForks: false,
+    }, since, undefined, false);
+    await checkpoint.completeStep("commits:r1", found);
+
+    const result = await syncOrganization(MockAzureDevOps.ORGANIZATION, {
+      ...options,
+      since,
+      activities: ["commits"],
+      resume: true,
+    }, context);
+
+    assertEquals(result.exitCode, ExitCode.Success);
+    assertEquals(result.found, 2);
+    assertEquals(result.duplicates, 1);
+    assertEquals(await countCommits(contributionsPath), 3);
+    assertFalse(server.requests.some(url => url.pathname.includes("/repositories/r1/")));
+
+    await checkpoint.load();
+    assertFalse(checkpoint.exists);
+  });
+});
+
+Deno.test("syncOrganization fails to connect with an invalid token", async () => {
+  await withSyncFixture([], async ({ options, context }) => {
+    const result = await syncOrganization(MockAzureDevOps.ORGANIZATION, options, context);
+
+    assertEquals(result.exitCode, ExitCode.ConnectionFailed);
+  }, "wrong-token");
+});
+
+Deno.test("syncOrganization refuses settings the config file would reject", async () => {
+  await withSyncFixture([], async ({ options, context }) => {
+    const result = await syncOrganization(MockAzureDevOps.ORGANIZATION, { ...options, concurrency: 0 }, context);
+
+    assertEquals(result.exitCode, ExitCode.InvalidUsage);
+    assertEquals(result.message, 'Invalid value "0": concurrency must be at least 1');
+    assertEquals(await readConfig(MockAzureDevOps.ORGANIZATION), null);
+  });
+});
+
+Deno.test("syncOrganization leaves plaintext tokens in the config file on dry runs", async () => {
+  await withSyncFixture([], async ({ path, options, context }) => {
+    const config = { organization: MockAzureDevOps.ORGANIZATION, token: MockAzureDevOps.TOKEN, emails: [EMAIL] };
+    await writeConfig(config);
+
+    await syncOrganization(MockAzureDevOps.ORGANIZATION, { ...options, dryRun: true }, {
+      ...context,
+      vault: new CredentialVault(join(path, "vault.json"), () => Promise.resolve("passphrase")),
+    });
+
+    assertEquals(await readConfig(MockAzureDevOps.ORGANIZATION), config);
+    assertFalse(await exists(join(path, "vault.json")));
+  }, null);
+});
@@ -0,0 +1,104 @@
+import {assertEquals, assertStringIncludes} from "@std/assert";
+import {commitActivity} from "../src/activities.ts";
+import {GitOperations} from "../src/git.ts";
+import {SyncLedger} from "../src/ledger.ts";
+import {log} from "../src/logger.ts";
+import {mirrorActivities} from "../src/mirror.ts";
+import {formatActivities} from "../src/templates.ts";
+import {
+  applyTimeZone,
+  formatUtcOffset,
+  formatZonedDate,
+  getUtcOffset,
+  parseUtcOffset,
+  validateTimeZone,
+} from "../src/timezone.ts";
+import {planCommits} from "../src/weighting.ts";
+import {mockCommit} from "./mock_azure_devops.ts";
+
+const EMAIL = "dev@example.com";
+const IDENTITY = { name: "Test", email: "test@example.com" };
+
+// Late in the evening in Tokyo, and in San Francisco the next morning in UTC
+const TOKYO = mockCommit(1, EMAIL, "2024-03-01T23:30:00+09:00");
+const SAN_FRANCISCO = mockCommit(2, EMAIL, "2024-03-01T22:00:00-08:00");
+
+await log.configure("error");
+
+// Function to list the author and committer dates of a repository's commits, oldest first
+async function getDates(repoPath: string): Promise<string[]> {
+  const { stdout } = await new Deno.Command("git", {
+    args: ["log", "--reverse", "--format=%aI %cI"],
+    cwd: repoPath,
+    stdout: "piped",
+    stderr: "null",
+  }).output();
+  return new TextDecoder().decode(stdout).split("\n").filter(line => line);
+}
+
+Deno.test("offsets are read from dates and time zones", () => {
+  assertEquals(parseUtcOffset("2024-03-01T23:30:00+09:00"), 540);
+  assertEquals(parseUtcOffset("2024-03-01T22:00:00-0730"), -450);
+  assertEquals(parseUtcOffset("2024-03-01T14:30:00Z"), undefined);
+
+  assertEquals(getUtcOffset(new Date("2024-01-15T12:00:00Z"), "America/Los_Angeles"), -480);
+  assertEquals(getUtcOffset(new Date("2024-07-15T12:00:00Z"), "America/Los_Angeles"), -420);
+  assertEquals(getUtcOffset(new Date(), "+05:30"), 330);
+  assertEquals(getUtcOffset(new Date(), "UTC"), 0);
+
+  assertEquals(formatUtcOffset(540), "+0900");
+  assertEquals(formatUtcOffset(-450), "-0730");
+  assertEquals(formatZonedDate(new Date("2024-03-01T14:30:00Z"), 540), "2024-03-01T23:30:00+09:00");
+  assertEquals(formatZonedDate(new Date("2024-03-01T14:30:00Z"), -450), "2024-03-01T07:00:00-07:30");
+  assertEquals(validateTimeZone("Asia/Tokyo"), true);
+  assertEquals(typeof validateTimeZone("Mars/Olympus_Mons"), "string");
+});
+
+Deno.test("fake commits keep the offset of the original in their author and committer dates", async () => {
+  const repoPath = await Deno.makeTempDir({ prefix: "csync-azd-test-" });
+  try {
+    const gitOps = new GitOperations(repoPath, "contoso", IDENTITY);
+    await gitOps.initRepo();
+    const ledger = new SyncLedger(repoPath);
+    await ledger.load(gitOps);
+
+    const activities = applyTimeZone([TOKYO, SAN_FRANCISCO].map(commit => commitActivity(commit, "Project", "repo")));
+    await mirrorActivities(gitOps, ledger, planCommits(activities, { weighting: "per-commit", dailyCap: 1 }), {
+      organization: "contoso",
+      privacy: {},
+      templates: {},
+    });
+
+    assertEquals(await getDates(repoPath), [
+      "2024-03-01T23:30:00+09:00 2024-03-01T23:30:00+09:00",
+      "2024-03-01T22:00:00-08:00 2024-03-01T22:00:00-08:00",
+    ]);
+    assertEquals(await gitOps.getCommitDates(), [
+      { date: new Date("2024-03-01T22:00:00-08:00"), utcOffset: -480 },
+      { date: new Date("2024-03-01T23:30:00+09:00"), utcOffset: 540 },
+    ]);
+    // The San Francisco commit is later, even though its local time is earlier
+    assertEquals(await gitOps.getLastCommitDate(), new Date("2024-03-02T06:00:00Z"));
+  } finally {
+    await Deno.remove(repoPath, { recursive: true });
+  }
+});
+
+Deno.test("commits are grouped by the day of their offset, or of the forced time zone", () => {
+  const activities = [TOKYO, SAN_FRANCISCO].map(commit => commitActivity(commit, "Project", "repo"));
+  const settings = { weighting: "daily", dailyCap: 1 } as const;
+
+  // Both were made on March 1st where they were made
+  assertEquals(planCommits(applyTimeZone(activities), settings).commits.length, 1);
+  // In UTC, one was made on March 1st and the other on March 2nd
+  assertEquals(planCommits(applyTimeZone(activities, "UTC"), settings).commits.length, 2);
+  assertEquals(applyTimeZone(activities, "Asia/Tokyo").map(activity => activity.utcOffset), [540, 540]);
+});
+
+Deno.test("the {date} of fake commits is written in their offset", () => {
+  const [tokyo, sanFrancisco] = applyTimeZone([TOKYO, SAN_FRANCISCO].map(commit => commitActivity(commit, "Project", "repo")));
+  const template = { content: "{date} {isoDate}" };
+
+  assertStringIncludes(formatActivities([tokyo], template).content, "2024-03-01T23:30:00+09:00 2024-03-01T14:30:00.000Z");
+  assertStringIncludes(formatActivities([sanFrancisco], template).content, "2024-03-01T22:00:00-08:00 2024-03-02T06:00:00.000Z");
+});
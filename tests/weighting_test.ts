@@ -0,0 +1,89 @@
+import {assertEquals, assertStringIncludes} from "@std/assert";
+import {type Activity, commitActivity} from "../src/activities.ts";
+import {formatActivities} from "../src/templates.ts";
+import {planCommits} from "../src/weighting.ts";
+import {mockCommit} from "./mock_azure_devops.ts";
+
+const EMAIL = "dev@example.com";
+
+// Function to build commit activities at the given local times, oldest first
+function activitiesAt(...dates: Date[]): Activity[] {
+  return dates.map((date, index) => commitActivity(mockCommit(index + 1, EMAIL, date.toISOString()), "Project", "repo"));
+}
+
+// Function to list the titles of the activities in each planned commit
+function titles(commits: Activity[][]): string[][] {
+  return commits.map(activities => activities.map(activity => activity.title));
+}
+
+const MONDAY = activitiesAt(
+  new Date(2024, 0, 1, 9),
+  new Date(2024, 0, 1, 10),
+  new Date(2024, 0, 1, 11),
+  new Date(2024, 0, 1, 12),
+  new Date(2024, 0, 2, 9),
+);
+
+Deno.test("per-commit weighting writes one fake commit per activity", () => {
+  const plan = planCommits(MONDAY, { weighting: "per-commit", dailyCap: 2 });
+
+  assertEquals(plan.commits.length, 5);
+  assertEquals(plan.capped, []);
+});
+
+Deno.test("daily weighting groups the activities of each day", () => {
+  const plan = planCommits(MONDAY, { weighting: "daily", dailyCap: 2 });
+
+  assertEquals(titles(plan.commits), [["Commit 1", "Commit 2", "Commit 3", "Commit 4"], ["Commit 5"]]);
+});
+
+Deno.test("a daily cap adds the activities beyond it to the last fake commit of the day", () => {
+  const plan = planCommits(MONDAY, { weighting: "daily-cap", dailyCap: 2 });
+
+  assertEquals(titles(plan.commits), [["Commit 1"], ["Commit 2", "Commit 3", "Commit 4"], ["Commit 5"]]);
+  assertEquals(plan.capped, []);
+});
+
+Deno.test("a daily cap counts the fake commits already written", () => {
+  const plan = planCommits(MONDAY, { weighting: "daily-cap", dailyCap: 2 }, [
+    { date: new Date(2024, 0, 1, 8) },
+    { date: new Date(2024, 0, 1, 8, 30) },
+    { date: new Date(2024, 0, 2, 8) },
+  ]);
+
+  assertEquals(titles(plan.commits), [["Commit 5"]]);
+  assertEquals(plan.capped.map(activity => activity.title), ["Commit 1", "Commit 2", "Commit 3", "Commit 4"]);
+});
+
+Deno.test("grouped fake commits keep every original commit ID and the date of the last one", () => {
+  const commit = formatActivities(MONDAY.slice(0, 3));
+
+  assertEquals(commit.date, MONDAY[2].date);
+  assertStringIncludes(commit.message, "(+2 more)");
+  for (const activity of MONDAY.slice(0, 3)) {
+    assertStringIncludes(commit.content, `Original commit: ${activity.id}`);
+  }
+});
+
+Deno.test("fake commits can be sized by the files the original changed", () => {
+  const activity = commitActivity(
+    { ...mockCommit(1, EMAIL, "2024-01-01T09:00:00Z"), changeCounts: { Add: 2, Edit: 1 } },
+    "Project",
+    "repo",
+  );
+
+  const plain = formatActivities([activity]);
+  const sized = formatActivities([activity], {}, true);
+
+  assertEquals(sized.content, `${plain.content}\nChanges: 2 added, 1 edited, 0 deleted\nadded file 1\nadded file 2\nedited file 1`);
+});
+
+Deno.test("custom content templates keep the ID the history is read back from", () => {
+  const commit = formatActivities(MONDAY.slice(0, 2), { content: "{kind} {id}" });
+
+  assertEquals(
+    commit.content,
+    MONDAY.slice(0, 2).map(activity => `commits ${activity.id}\nOriginal commit: ${activity.id}`).join("\n\n"),
+  );
+  assertEquals(formatActivities([MONDAY[0]]).content.split("\n").filter(line => line.startsWith("Original")).length, 1);
+});